@@ -0,0 +1,187 @@
+import { randomBytes } from "crypto";
+import type { Response } from "express";
+import jwt from "jsonwebtoken";
+import { storage, buildActivityItem, type CombinedActivityItem } from "./storage";
+import { onActivity, type ActivitySource } from "./events";
+import { getJwtSecret } from "./sessions";
+import type { Session, User } from "@shared/schema";
+
+const BUFFER_SIZE = 1000;
+const HEARTBEAT_MS = 25 * 1000;
+const RETRY_MS = 3000;
+const MAX_CONNECTIONS_PER_USER = 10;
+const TICKET_TTL = "60s";
+const TICKET_AUDIENCE = "activity-stream";
+
+interface BufferedEvent {
+  seq: number;
+  item: CombinedActivityItem;
+  viewerIds: number[];
+}
+
+export interface StreamSubscription {
+  user: User;
+  botId?: number;
+  /** Further narrows bot events, e.g. to the bots an API token may see. */
+  allowBot?: (botId: number) => boolean;
+  /** Checked on every heartbeat; the stream closes once it returns false. */
+  isAlive?: () => Promise<boolean>;
+}
+
+interface Subscriber extends StreamSubscription {
+  res: Response;
+  heartbeat: NodeJS.Timeout;
+}
+
+/**
+ * Server-sent activity feed. Items have the same shape as
+ * `/api/activity/global`, one per write; a post or trade that changes state
+ * is sent again under the same item id so clients can upsert.
+ *
+ * Event ids are `<epoch>-<seq>`, where the epoch is random per process. A
+ * reconnect with a Last-Event-ID from this process replays what was missed
+ * from an in-memory buffer; anything older or from another process gets a
+ * `reset` event, telling the client to refetch over REST.
+ */
+export class ActivityStream {
+  private readonly epoch = randomBytes(4).toString("hex");
+  private seq = 0;
+  private buffer: BufferedEvent[] = [];
+  private subscribers = new Set<Subscriber>();
+  private ingesting: Promise<void> = Promise.resolve();
+  private listening = false;
+
+  listen(): void {
+    if (this.listening) return;
+    this.listening = true;
+    // Ingest one write at a time so sequence numbers follow write order.
+    onActivity(source => {
+      this.ingesting = this.ingesting
+        .then(() => this.ingest(source))
+        .catch(err => console.error("Activity stream ingest error:", err));
+    });
+  }
+
+  /** Short-lived ticket for EventSource clients, which can't send an Authorization header. */
+  createTicket(user: User, sessionId: string): string {
+    return jwt.sign({ userId: user.id, sid: sessionId }, getJwtSecret(), { expiresIn: TICKET_TTL, audience: TICKET_AUDIENCE });
+  }
+
+  async redeemTicket(ticket: string): Promise<{ user: User; session: Session } | null> {
+    let payload: { userId: number; sid: string };
+    try {
+      payload = jwt.verify(ticket, getJwtSecret(), { audience: TICKET_AUDIENCE }) as { userId: number; sid: string };
+    } catch {
+      return null;
+    }
+    const session = await storage.getSession(payload.sid);
+    if (!session || session.userId !== payload.userId || session.revokedAt) return null;
+    if (session.expiresAt.getTime() <= Date.now()) return null;
+    const user = await storage.getUser(payload.userId);
+    return user ? { user, session } : null;
+  }
+
+  canConnect(userId: number): boolean {
+    let count = 0;
+    for (const sub of Array.from(this.subscribers)) {
+      if (sub.user.id === userId) count++;
+    }
+    return count < MAX_CONNECTIONS_PER_USER;
+  }
+
+  subscribe(res: Response, subscription: StreamSubscription, lastEventId?: string): void {
+    res.status(200).set({
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+    res.flushHeaders();
+    res.write(`retry: ${RETRY_MS}\n\n`);
+
+    const subscriber: Subscriber = {
+      ...subscription,
+      res,
+      heartbeat: setInterval(() => void this.beat(subscriber), HEARTBEAT_MS),
+    };
+    this.replay(subscriber, lastEventId);
+    this.subscribers.add(subscriber);
+    res.on("close", () => this.drop(subscriber));
+  }
+
+  private async ingest(source: ActivitySource): Promise<void> {
+    const { botId } = source.row;
+    let item: CombinedActivityItem;
+    let viewerIds: number[];
+    if (botId) {
+      const ctx = await storage.getBotActivityContext(botId);
+      if (!ctx) return;
+      const { viewerIds: ids, ...rest } = ctx;
+      item = buildActivityItem(source, rest);
+      viewerIds = ids;
+    } else if (source.kind === "log" && source.row.userId) {
+      // Account-level entries are only for the account holder.
+      const owner = await storage.getUser(source.row.userId);
+      item = buildActivityItem(source, { botName: "Account", ownerUsername: owner?.username || "Unknown", botProfileImageUrl: null });
+      viewerIds = [source.row.userId];
+    } else {
+      return;
+    }
+
+    const event: BufferedEvent = { seq: ++this.seq, item, viewerIds };
+    this.buffer.push(event);
+    if (this.buffer.length > BUFFER_SIZE) this.buffer.shift();
+
+    for (const sub of Array.from(this.subscribers)) {
+      if (this.visibleTo(sub, event)) this.send(sub, event);
+    }
+  }
+
+  private replay(sub: Subscriber, lastEventId?: string): void {
+    if (!lastEventId) return;
+    const [epoch, rawSeq] = lastEventId.split("-");
+    const lastSeq = parseInt(rawSeq, 10);
+    const oldest = this.buffer[0]?.seq ?? this.seq + 1;
+    // Ids from another process, or older than the buffer, can't be replayed.
+    if (epoch !== this.epoch || isNaN(lastSeq) || lastSeq < oldest - 1) {
+      sub.res.write(`event: reset\ndata: {}\n\n`);
+      return;
+    }
+    for (const event of this.buffer) {
+      if (event.seq > lastSeq && this.visibleTo(sub, event)) this.send(sub, event);
+    }
+  }
+
+  private visibleTo(sub: Subscriber, event: BufferedEvent): boolean {
+    if (!event.viewerIds.includes(sub.user.id)) return false;
+    const botId = event.item.botId;
+    if (sub.botId !== undefined && botId !== sub.botId) return false;
+    if (botId && sub.allowBot && !sub.allowBot(botId)) return false;
+    // Account-level entries aren't tied to a bot, so token-scoped streams skip them.
+    if (!botId && sub.allowBot) return false;
+    return true;
+  }
+
+  private send(sub: Subscriber, event: BufferedEvent): void {
+    sub.res.write(`id: ${this.epoch}-${event.seq}\nevent: activity\ndata: ${JSON.stringify(event.item)}\n\n`);
+  }
+
+  private async beat(sub: Subscriber): Promise<void> {
+    try {
+      if (sub.isAlive && !(await sub.isAlive())) {
+        sub.res.end();
+        return;
+      }
+      sub.res.write(`: heartbeat\n\n`);
+    } catch (err) {
+      console.error("Activity stream heartbeat error:", err);
+    }
+  }
+
+  private drop(sub: Subscriber): void {
+    clearInterval(sub.heartbeat);
+    this.subscribers.delete(sub);
+  }
+}
+
+export const activityStream = new ActivityStream();
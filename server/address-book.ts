@@ -0,0 +1,80 @@
+import { storage } from "./storage";
+import type { RiskCheck, RiskContext } from "./risk";
+import type { Chain, WithdrawalAddress } from "@shared/schema";
+
+const DEFAULT_COOLDOWN_HOURS = 24;
+
+export class AddressBookError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "AddressBookError";
+  }
+}
+
+export function getAddressCooldownMs(): number {
+  const hours = parseFloat(process.env.WITHDRAWAL_ADDRESS_COOLDOWN_HOURS || String(DEFAULT_COOLDOWN_HOURS));
+  return (isNaN(hours) ? DEFAULT_COOLDOWN_HOURS : hours) * 60 * 60 * 1000;
+}
+
+/**
+ * Per-user saved withdrawal destinations. New entries only become usable after
+ * a cooling-off period, so a stolen session cannot add an address and drain a
+ * wallet to it straight away.
+ */
+export class AddressBookService {
+  async add(userId: number, label: string, address: string, chain: Chain = "solana"): Promise<WithdrawalAddress> {
+    if (await storage.getWithdrawalAddress(userId, address)) {
+      throw new AddressBookError("Address is already in your address book", 409);
+    }
+    const entry = await storage.createWithdrawalAddress({
+      userId,
+      label,
+      address,
+      chain,
+      activatesAt: new Date(Date.now() + getAddressCooldownMs()),
+    });
+    await storage.createAuditLog({
+      userId, botId: null, action: "withdrawal_address_added",
+      details: { addressId: entry.id, label, address, chain, activatesAt: entry.activatesAt },
+      source: "web",
+    });
+    return entry;
+  }
+
+  async remove(userId: number, id: number): Promise<void> {
+    const entry = await storage.deleteWithdrawalAddress(userId, id);
+    if (!entry) {
+      throw new AddressBookError("Address not found", 404);
+    }
+    await storage.createAuditLog({
+      userId, botId: null, action: "withdrawal_address_removed",
+      details: { addressId: entry.id, label: entry.label, address: entry.address },
+      source: "web",
+    });
+  }
+
+  /**
+   * Withdrawals may only go to active entries in the bot owner's book that
+   * were saved for the same chain as the bot's wallet.
+   */
+  async checkDestination(ownerId: number, botId: number, address: string, context: RiskContext, chain: Chain = "solana"): Promise<RiskCheck> {
+    const entry = await storage.getWithdrawalAddress(ownerId, address);
+    let result: RiskCheck = { ok: true };
+    if (!entry || (entry.chain || "solana") !== chain) {
+      result = { ok: false, reason: "Destination is not in your withdrawal address book" };
+    } else if (entry.activatesAt.getTime() > Date.now()) {
+      result = { ok: false, reason: `Destination becomes usable at ${entry.activatesAt.toISOString()}` };
+    }
+
+    if (!result.ok) {
+      await storage.createAuditLog({
+        userId: context.userId, botId, action: "withdrawal_rejected",
+        details: { reason: result.reason, destination: address },
+        source: context.source,
+      });
+    }
+    return result;
+  }
+}
+
+export const addressBook = new AddressBookService();
@@ -1,39 +1,96 @@
-import { sql } from "drizzle-orm";
+import { sql, type AnyColumn, type SQL } from "drizzle-orm";
 import { db } from "./db";
-import { eq, desc, and } from "drizzle-orm";
+import { eq, and, gte, lt } from "drizzle-orm";
 import {
-  users, bots, trades
+  users, bots, trades, botPosts,
+  ANALYTICS_MAX_RANGE_DAYS, type AnalyticsBucket,
 } from "@shared/schema";
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const BUCKET_MS: Record<AnalyticsBucket, number> = {
+  hour: 60 * 60 * 1000,
+  day: DAY_MS,
+  week: 7 * DAY_MS,
+};
+
+const DEFAULT_RANGE_DAYS: Record<AnalyticsBucket, number> = { hour: 2, day: 30, week: 182 };
+
+export interface AnalyticsRange {
+  bucket: AnalyticsBucket;
+  from: Date;
+  to: Date;
+}
+
+export interface AnalyticsPoint {
+  bucket: string;
+  buyVolume: number;
+  sellVolume: number;
+  totalVolume: number;
+  trades: number;
+  completedTrades: number;
+  failedTrades: number;
+  /** Completed share of settled (completed or failed) trades, or null when none settled. */
+  successRate: number | null;
+  posts: number;
+  replies: number;
+}
+
+/** Start of the UTC bucket containing `date`; weeks start on Monday, as in Postgres. */
+function truncate(date: Date, bucket: AnalyticsBucket): Date {
+  const d = new Date(Date.UTC(
+    date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(),
+    bucket === "hour" ? date.getUTCHours() : 0,
+  ));
+  if (bucket === "week") d.setUTCDate(d.getUTCDate() - ((d.getUTCDay() + 6) % 7));
+  return d;
+}
+
+// The bucket name is interpolated raw so GROUP BY matches the select list;
+// it is always one of ANALYTICS_BUCKETS.
+function bucketKey(column: AnyColumn, bucket: AnalyticsBucket): SQL<string> {
+  return sql<string>`to_char(date_trunc('${sql.raw(bucket)}', ${column}), 'YYYY-MM-DD"T"HH24:MI:SS"Z"')`;
+}
+
+function successRate(completed: number, failed: number): number | null {
+  return completed + failed > 0 ? (completed / (completed + failed)) * 100 : null;
+}
+
+/**
+ * Fill in defaults for a requested range. Without `from`, the range ends at
+ * `to` (or now) and spans a bucket-dependent default; ranges longer than the
+ * bucket allows are cut short at the far end.
+ */
+export function resolveAnalyticsRange(bucket: AnalyticsBucket, from?: Date, to?: Date): AnalyticsRange {
+  const maxMs = ANALYTICS_MAX_RANGE_DAYS[bucket] * DAY_MS;
+  if (from && !to) {
+    return { bucket, from, to: new Date(Math.min(Date.now(), from.getTime() + maxMs)) };
+  }
+  const end = to ?? new Date();
+  const start = from ?? new Date(end.getTime() - DEFAULT_RANGE_DAYS[bucket] * DAY_MS);
+  return { bucket, from: new Date(Math.max(start.getTime(), end.getTime() - maxMs)), to: end };
+}
+
 export class AnalyticsService {
   /**
    * Get 24h trading volume for a specific bot
    */
   async get24hVolume(botId: number): Promise<{ buyVolume: number; sellVolume: number; totalVolume: number }> {
-    const twentyFourHoursAgo = new Date(Date.now() - 24 * 60 * 60 * 1000);
-    
-    const botTrades = await db.select()
+    const twentyFourHoursAgo = new Date(Date.now() - DAY_MS);
+
+    const [row] = await db.select({
+      buyVolume: sql<string>`coalesce(sum(${trades.amountSol}) filter (where ${trades.tradeType} = 'buy'), 0)`,
+      sellVolume: sql<string>`coalesce(sum(${trades.amountSol}) filter (where ${trades.tradeType} <> 'buy'), 0)`,
+    })
       .from(trades)
-      .where(
-        and(
-          eq(trades.botId, botId),
-          eq(trades.status, "completed"),
-          sql`${trades.createdAt} >= ${twentyFourHoursAgo}`
-        )
-      );
-
-    let buyVolume = 0;
-    let sellVolume = 0;
-
-    for (const trade of botTrades) {
-      const amount = parseFloat(trade.amountSol || "0");
-      if (trade.tradeType === "buy") {
-        buyVolume += amount;
-      } else {
-        sellVolume += amount;
-      }
-    }
+      .where(and(
+        eq(trades.botId, botId),
+        eq(trades.status, "completed"),
+        gte(trades.createdAt, twentyFourHoursAgo),
+      ));
 
+    const buyVolume = parseFloat(row?.buyVolume || "0");
+    const sellVolume = parseFloat(row?.sellVolume || "0");
     return {
       buyVolume,
       sellVolume,
@@ -45,14 +102,17 @@ export class AnalyticsService {
    * Get bot performance metrics
    */
   async getBotPerformance(botId: number) {
-    const botTrades = await db.select()
+    const [row] = await db.select({
+      totalTrades: sql<number>`count(*)::int`,
+      successfulTrades: sql<number>`(count(*) filter (where ${trades.status} = 'completed'))::int`,
+      failedTrades: sql<number>`(count(*) filter (where ${trades.status} = 'failed'))::int`,
+    })
       .from(trades)
-      .where(eq(trades.botId, botId))
-      .orderBy(desc(trades.createdAt));
+      .where(eq(trades.botId, botId));
 
-    const totalTrades = botTrades.length;
-    const successfulTrades = botTrades.filter(t => t.status === "completed").length;
-    const failedTrades = botTrades.filter(t => t.status === "failed").length;
+    const totalTrades = row?.totalTrades ?? 0;
+    const successfulTrades = row?.successfulTrades ?? 0;
+    const failedTrades = row?.failedTrades ?? 0;
 
     return {
       totalTrades,
@@ -66,22 +126,112 @@ export class AnalyticsService {
    * Get aggregate platform stats
    */
   async getPlatformStats() {
-    const [allBots, allTrades, allUsers] = await Promise.all([
-      db.select().from(bots),
-      db.select().from(trades).where(eq(trades.status, "completed")),
-      db.select().from(users),
+    const [[botCounts], [tradeTotals], [userCount]] = await Promise.all([
+      db.select({
+        totalAgents: sql<number>`count(*)::int`,
+        activeAgents: sql<number>`(count(*) filter (where ${bots.status} = 'active'))::int`,
+      }).from(bots),
+      db.select({
+        totalTrades: sql<number>`count(*)::int`,
+        totalSolVolume: sql<string>`coalesce(sum(${trades.amountSol}), 0)`,
+      }).from(trades).where(eq(trades.status, "completed")),
+      db.select({ totalUsers: sql<number>`count(*)::int` }).from(users),
     ]);
 
-    const totalSolVolume = allTrades.reduce((acc, t) => acc + parseFloat(t.amountSol || "0"), 0);
-
     return {
-      totalAgents: allBots.length,
-      activeAgents: allBots.filter(b => b.status === "active").length,
-      totalTrades: allTrades.length,
-      totalSolVolume,
-      totalUsers: allUsers.length,
+      totalAgents: botCounts?.totalAgents ?? 0,
+      activeAgents: botCounts?.activeAgents ?? 0,
+      totalTrades: tradeTotals?.totalTrades ?? 0,
+      totalSolVolume: parseFloat(tradeTotals?.totalSolVolume || "0"),
+      totalUsers: userCount?.totalUsers ?? 0,
     };
   }
+
+  /**
+   * Time-bucketed trade and posting series for one bot, or the whole platform
+   * when `botId` is omitted. Empty buckets are returned as zeros. Trades count
+   * in the bucket they were created in, posts in the one they were published in.
+   */
+  async getSeries(range: AnalyticsRange, botId?: number): Promise<{ series: AnalyticsPoint[]; totals: Omit<AnalyticsPoint, "bucket"> }> {
+    const { bucket, from, to } = range;
+    const tradeKey = bucketKey(trades.createdAt, bucket);
+    const postKey = bucketKey(botPosts.postedAt, bucket);
+
+    const [tradeRows, postRows] = await Promise.all([
+      db.select({
+        bucket: tradeKey,
+        buyVolume: sql<string>`coalesce(sum(${trades.amountSol}) filter (where ${trades.status} = 'completed' and ${trades.tradeType} = 'buy'), 0)`,
+        sellVolume: sql<string>`coalesce(sum(${trades.amountSol}) filter (where ${trades.status} = 'completed' and ${trades.tradeType} <> 'buy'), 0)`,
+        trades: sql<number>`count(*)::int`,
+        completedTrades: sql<number>`(count(*) filter (where ${trades.status} = 'completed'))::int`,
+        failedTrades: sql<number>`(count(*) filter (where ${trades.status} = 'failed'))::int`,
+      })
+        .from(trades)
+        .where(and(
+          botId !== undefined ? eq(trades.botId, botId) : undefined,
+          gte(trades.createdAt, from),
+          lt(trades.createdAt, to),
+        ))
+        .groupBy(tradeKey),
+      db.select({
+        bucket: postKey,
+        posts: sql<number>`(count(*) filter (where ${botPosts.postType} <> 'reply'))::int`,
+        replies: sql<number>`(count(*) filter (where ${botPosts.postType} = 'reply'))::int`,
+      })
+        .from(botPosts)
+        .where(and(
+          botId !== undefined ? eq(botPosts.botId, botId) : undefined,
+          eq(botPosts.status, "posted"),
+          gte(botPosts.postedAt, from),
+          lt(botPosts.postedAt, to),
+        ))
+        .groupBy(postKey),
+    ]);
+
+    const tradeMap = new Map(tradeRows.map(r => [r.bucket, r]));
+    const postMap = new Map(postRows.map(r => [r.bucket, r]));
+
+    const series: AnalyticsPoint[] = [];
+    for (let t = truncate(from, bucket).getTime(); t < to.getTime(); t += BUCKET_MS[bucket]) {
+      const key = new Date(t).toISOString().replace(/\.\d{3}Z$/, "Z");
+      const tr = tradeMap.get(key);
+      const po = postMap.get(key);
+      const buyVolume = parseFloat(tr?.buyVolume || "0");
+      const sellVolume = parseFloat(tr?.sellVolume || "0");
+      const completedTrades = tr?.completedTrades ?? 0;
+      const failedTrades = tr?.failedTrades ?? 0;
+      series.push({
+        bucket: key,
+        buyVolume,
+        sellVolume,
+        totalVolume: buyVolume + sellVolume,
+        trades: tr?.trades ?? 0,
+        completedTrades,
+        failedTrades,
+        successRate: successRate(completedTrades, failedTrades),
+        posts: po?.posts ?? 0,
+        replies: po?.replies ?? 0,
+      });
+    }
+
+    const totals = series.reduce((acc, p) => ({
+      buyVolume: acc.buyVolume + p.buyVolume,
+      sellVolume: acc.sellVolume + p.sellVolume,
+      totalVolume: acc.totalVolume + p.totalVolume,
+      trades: acc.trades + p.trades,
+      completedTrades: acc.completedTrades + p.completedTrades,
+      failedTrades: acc.failedTrades + p.failedTrades,
+      successRate: null,
+      posts: acc.posts + p.posts,
+      replies: acc.replies + p.replies,
+    }), {
+      buyVolume: 0, sellVolume: 0, totalVolume: 0, trades: 0, completedTrades: 0,
+      failedTrades: 0, successRate: null as number | null, posts: 0, replies: 0,
+    });
+    totals.successRate = successRate(totals.completedTrades, totals.failedTrades);
+
+    return { series, totals };
+  }
 }
 
 export const analyticsService = new AnalyticsService();
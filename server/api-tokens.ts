@@ -0,0 +1,100 @@
+import { randomBytes, createHash } from "crypto";
+import bcrypt from "bcrypt";
+import { storage } from "./storage";
+import type { ApiToken, ApiTokenScope, User } from "@shared/schema";
+
+export const API_TOKEN_PREFIX = "mc_";
+
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export class ApiTokenError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "ApiTokenError";
+  }
+}
+
+export function isApiToken(bearer: string): boolean {
+  return bearer.startsWith(API_TOKEN_PREFIX);
+}
+
+function hashApiToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/** Token metadata safe to return to clients; never includes the hash. */
+export function describeApiToken(token: ApiToken) {
+  const { tokenHash: _hash, ...rest } = token;
+  return rest;
+}
+
+export function tokenAllowsBot(token: ApiToken, botId: number): boolean {
+  return !token.botIds || token.botIds.includes(botId);
+}
+
+export function tokenHasScope(token: ApiToken, scope: ApiTokenScope): boolean {
+  return token.scopes.includes(scope);
+}
+
+/**
+ * Personal access tokens for scripts. Only a SHA-256 of the token is stored;
+ * the plaintext is returned once from `create`. A token acts as its user, so
+ * organization roles still apply on top of the token's scopes.
+ */
+export class ApiTokenService {
+  async create(user: User, input: {
+    name: string;
+    password: string;
+    scopes: ApiTokenScope[];
+    botIds?: number[];
+    expiresInDays?: number;
+  }): Promise<{ token: string; record: ApiToken }> {
+    if (!(await bcrypt.compare(input.password, user.passwordHash))) {
+      throw new ApiTokenError("Invalid password", 401);
+    }
+
+    const token = `${API_TOKEN_PREFIX}${randomBytes(32).toString("base64url")}`;
+    const record = await storage.createApiToken({
+      userId: user.id,
+      name: input.name,
+      tokenHash: hashApiToken(token),
+      tokenPrefix: token.slice(0, 10),
+      scopes: Array.from(new Set(input.scopes)),
+      botIds: input.botIds ? Array.from(new Set(input.botIds)) : null,
+      expiresAt: input.expiresInDays ? new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000) : null,
+    });
+    await storage.createAuditLog({
+      userId: user.id, botId: null, action: "api_token_created",
+      details: { tokenId: record.id, name: record.name, scopes: record.scopes, botIds: record.botIds, expiresAt: record.expiresAt },
+      source: "web",
+    });
+    return { token, record };
+  }
+
+  async authenticate(token: string): Promise<{ user: User; apiToken: ApiToken } | null> {
+    const apiToken = await storage.getApiTokenByHash(hashApiToken(token));
+    if (!apiToken || apiToken.revokedAt) return null;
+    if (apiToken.expiresAt && apiToken.expiresAt.getTime() <= Date.now()) return null;
+
+    const user = await storage.getUser(apiToken.userId);
+    if (!user) return null;
+
+    const now = new Date();
+    if (!apiToken.lastUsedAt || now.getTime() - apiToken.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+      storage.touchApiToken(apiToken.id, now).catch(err => console.error("API token touch error:", err));
+    }
+    return { user, apiToken };
+  }
+
+  async revoke(user: User, id: number): Promise<void> {
+    const token = await storage.revokeApiToken(user.id, id);
+    if (!token) throw new ApiTokenError("Token not found", 404);
+    await storage.createAuditLog({
+      userId: user.id, botId: null, action: "api_token_revoked",
+      details: { tokenId: token.id, name: token.name },
+      source: "web",
+    });
+  }
+}
+
+export const apiTokenService = new ApiTokenService();
@@ -0,0 +1,183 @@
+import { storage } from "./storage";
+import { mentionWorker } from "./mentions";
+import { riskService } from "./risk";
+import { addressBook } from "./address-book";
+import { getChain } from "./chains";
+import { PollingWorker } from "./worker";
+import type { ApprovalKind, Bot } from "@shared/schema";
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+const DEFAULT_EXPIRY_MINUTES = 1440;
+
+export class ApprovalError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "ApprovalError";
+  }
+}
+
+function notPending(kind: ApprovalKind): ApprovalError {
+  return new ApprovalError(`This ${kind} is no longer awaiting approval`, 409);
+}
+
+/**
+ * Owner decisions on items a bot in approval mode has parked in
+ * "pending_approval". Approving hands the item back to its normal pipeline:
+ * posts join the queue, trades and withdrawals go to their executors, and
+ * replies are published straight away.
+ */
+export class ApprovalService {
+  async approve(bot: Bot, kind: ApprovalKind, itemId: number, userId: number, content?: string): Promise<void> {
+    if (content !== undefined && (kind === "trade" || kind === "withdrawal")) {
+      throw new ApprovalError("Only posts and replies can be edited", 400);
+    }
+    await this.assertBelongsToBot(bot, kind, itemId);
+
+    switch (kind) {
+      case "post": {
+        const post = await storage.transitionPost(itemId, "pending_approval", {
+          status: "queued",
+          scheduledFor: new Date(),
+          ...(content !== undefined ? { content } : {}),
+        });
+        if (!post) throw notPending(kind);
+        break;
+      }
+      case "reply": {
+        const mention = await storage.transitionMention(itemId, "pending_approval", {
+          replyStatus: "sending",
+          ...(content !== undefined ? { replyText: content } : {}),
+        });
+        if (!mention) throw notPending(kind);
+        await this.record(bot, userId, "approval_granted", kind, itemId, { edited: content !== undefined });
+        await mentionWorker.publishReply(bot, mention, mention.replyText || "");
+        return;
+      }
+      // Limits are re-checked on release: they may have tightened, or other
+      // spending may have happened, since the item was parked.
+      case "trade": {
+        const trade = await storage.getTrade(itemId);
+        if (trade?.status !== "pending_approval") throw notPending(kind);
+        const released = await riskService.guardTrade(bot.id, {
+          tradeType: trade.tradeType,
+          tokenMint: trade.tokenMint,
+          amountSol: trade.amountSol ? parseFloat(trade.amountSol) : null,
+        }, { userId, source: "web" }, locked => locked.transitionTrade(itemId, "pending_approval", { status: "pending" }));
+        if (!released.ok) throw new ApprovalError(released.reason, 403);
+        if (!released.value) throw notPending(kind);
+        break;
+      }
+      case "withdrawal": {
+        const withdrawal = await storage.getWithdrawal(itemId);
+        if (withdrawal?.status !== "pending_approval") throw notPending(kind);
+        const destination = await addressBook.checkDestination(bot.userId, bot.id, withdrawal.destinationAddress, { userId, source: "web" }, getChain(withdrawal.chain).id);
+        if (!destination.ok) throw new ApprovalError(destination.reason, 403);
+        const released = await riskService.guardWithdrawal(bot.id, {
+          amountSol: parseFloat(withdrawal.amountSol),
+          tokenAddress: withdrawal.tokenAddress,
+        }, { userId, source: "web" }, locked => locked.transitionWithdrawal(itemId, "pending_approval", { status: "pending" }));
+        if (!released.ok) throw new ApprovalError(released.reason, 403);
+        if (!released.value) throw notPending(kind);
+        break;
+      }
+    }
+
+    await this.record(bot, userId, "approval_granted", kind, itemId, { edited: content !== undefined });
+  }
+
+  async reject(bot: Bot, kind: ApprovalKind, itemId: number, userId: number, reason?: string): Promise<void> {
+    await this.assertBelongsToBot(bot, kind, itemId);
+
+    let rejected: unknown;
+    switch (kind) {
+      case "post":
+        rejected = await storage.transitionPost(itemId, "pending_approval", { status: "rejected" });
+        break;
+      case "reply":
+        rejected = await storage.transitionMention(itemId, "pending_approval", { replyStatus: "rejected", processedAt: new Date() });
+        break;
+      case "trade":
+        rejected = await storage.transitionTrade(itemId, "pending_approval", { status: "rejected", errorMessage: reason || "Rejected by owner" });
+        break;
+      case "withdrawal":
+        rejected = await storage.transitionWithdrawal(itemId, "pending_approval", { status: "rejected", errorMessage: reason || "Rejected by owner" });
+        break;
+    }
+    if (!rejected) throw notPending(kind);
+
+    await this.record(bot, userId, "approval_rejected", kind, itemId, { reason });
+  }
+
+  async edit(bot: Bot, kind: ApprovalKind, itemId: number, userId: number, content: string): Promise<void> {
+    await this.assertBelongsToBot(bot, kind, itemId);
+
+    let edited: unknown;
+    if (kind === "post") {
+      edited = await storage.transitionPost(itemId, "pending_approval", { content });
+    } else if (kind === "reply") {
+      edited = await storage.transitionMention(itemId, "pending_approval", { replyText: content });
+    } else {
+      throw new ApprovalError("Only posts and replies can be edited", 400);
+    }
+    if (!edited) throw notPending(kind);
+
+    await this.record(bot, userId, "approval_edited", kind, itemId, { content });
+  }
+
+  private async assertBelongsToBot(bot: Bot, kind: ApprovalKind, itemId: number): Promise<void> {
+    let item: { botId: number } | undefined;
+    switch (kind) {
+      case "post": item = await storage.getPost(itemId); break;
+      case "reply": item = await storage.getMention(itemId); break;
+      case "trade": item = await storage.getTrade(itemId); break;
+      case "withdrawal": item = await storage.getWithdrawal(itemId); break;
+    }
+    if (!item || item.botId !== bot.id) {
+      throw new ApprovalError("Item not found", 404);
+    }
+  }
+
+  private async record(bot: Bot, userId: number, action: string, kind: ApprovalKind, itemId: number, details: Record<string, unknown>): Promise<void> {
+    await storage.createAuditLog({
+      userId, botId: bot.id, action,
+      details: { kind, itemId, ...details },
+      source: "web",
+    });
+  }
+}
+
+export const approvalService = new ApprovalService();
+
+export class ApprovalSweeper extends PollingWorker {
+  constructor() {
+    super("Approval sweeper", SWEEP_INTERVAL_MS);
+  }
+
+  protected async tick(): Promise<void> {
+    const botIds = await storage.getBotIdsWithPendingApprovals();
+    for (const botId of botIds) {
+      const bot = await storage.getBot(botId);
+      if (!bot) continue;
+
+      const cutoff = new Date(Date.now() - (bot.approvalExpiryMinutes || DEFAULT_EXPIRY_MINUTES) * 60 * 1000);
+      const expired = await storage.expirePendingApprovals(botId, cutoff);
+      const items: [ApprovalKind, { id: number }[]][] = [
+        ["post", expired.posts],
+        ["reply", expired.replies],
+        ["trade", expired.trades],
+        ["withdrawal", expired.withdrawals],
+      ];
+      for (const [kind, rows] of items) {
+        for (const row of rows) {
+          await storage.createAuditLog({
+            userId: bot.userId, botId, action: "approval_expired",
+            details: { kind, itemId: row.id },
+            source: "agent",
+          });
+        }
+      }
+    }
+  }
+}
+
+export const approvalSweeper = new ApprovalSweeper();
@@ -0,0 +1,49 @@
+import { CHAINS, type Chain } from "@shared/schema";
+import { generateWalletKeypair, parseSolanaSecretKey, isValidSolanaAddress } from "./crypto";
+import { getSolBalance } from "./solana";
+import { generateEvmWallet, parseEvmPrivateKey, isValidEvmAddress, normalizeEvmAddress, getEthBalance } from "./evm";
+
+export interface ChainAdapter {
+  id: Chain;
+  nativeSymbol: string;
+  generateWallet(): { publicKey: string; privateKey: string };
+  /** Validate an externally supplied secret key; throws if it is malformed. */
+  parseSecretKey(secret: string): { publicKey: string; privateKey: string };
+  isValidAddress(address: string): boolean;
+  /** Canonical form used for storage and address-book comparisons. */
+  normalizeAddress(address: string): string;
+  getNativeBalance(address: string): Promise<number>;
+}
+
+const CHAIN_ADAPTERS: Record<Chain, ChainAdapter> = {
+  solana: {
+    id: "solana",
+    nativeSymbol: "SOL",
+    generateWallet: generateWalletKeypair,
+    parseSecretKey: parseSolanaSecretKey,
+    isValidAddress: isValidSolanaAddress,
+    normalizeAddress: address => address,
+    getNativeBalance: getSolBalance,
+  },
+  base: {
+    id: "base",
+    nativeSymbol: "ETH",
+    generateWallet: generateEvmWallet,
+    parseSecretKey: parseEvmPrivateKey,
+    isValidAddress: isValidEvmAddress,
+    normalizeAddress: normalizeEvmAddress,
+    getNativeBalance: getEthBalance,
+  },
+};
+
+/**
+ * Wallets created before chains were introduced have no chain recorded and
+ * are Solana wallets.
+ */
+export function getChain(chain: string | null | undefined): ChainAdapter {
+  const id = (chain || "solana") as Chain;
+  if (!CHAINS.includes(id)) {
+    throw new Error(`Unsupported chain: ${chain}`);
+  }
+  return CHAIN_ADAPTERS[id];
+}
@@ -0,0 +1,220 @@
+import { tradeSchema, withdrawSchema, CHAIN_LABELS, type Bot, type BotMention, type Chain } from "@shared/schema";
+import { storage } from "./storage";
+import { getChain } from "./chains";
+import { riskService } from "./risk";
+import { addressBook } from "./address-book";
+import { xTokenManager } from "./x-tokens";
+import { getUserByUsername, XApiError } from "./x";
+
+export type CommandType = "buy" | "sell" | "withdraw" | "pause" | "resume" | "balance";
+
+export type ParsedCommand =
+  | { type: "buy" | "sell"; tokenMint: string; amountSol?: number; amountTokens?: number }
+  | { type: "withdraw"; destinationAddress: string; amountSol: number }
+  | { type: "pause" | "resume" | "balance" };
+
+export type CommandParseResult =
+  | { ok: true; command: ParsedCommand }
+  | { ok: false; type: CommandType; error: string };
+
+const COMMAND_VERBS: CommandType[] = ["buy", "sell", "withdraw", "pause", "resume", "balance"];
+
+function usageFor(verb: CommandType, symbol: string): string {
+  switch (verb) {
+    case "buy": return `buy <mint> for <amount> ${symbol}`;
+    case "sell": return `sell <mint> for <amount> ${symbol} | sell <mint> <amount> tokens`;
+    case "withdraw": return `withdraw <amount> ${symbol} to <address>`;
+    default: return verb;
+  }
+}
+
+function normalizeHandle(handle: string): string {
+  return handle.trim().replace(/^@/, "").toLowerCase();
+}
+
+/** Matched on the immutable X user id, never the handle. */
+export function isCommander(bot: Bot, authorId: string): boolean {
+  return !!bot.transactionCommanderXId && bot.transactionCommanderXId === authorId;
+}
+
+/**
+ * Resolve the commander handle to an X user id through the bot's own X
+ * connection. Returns null when the bot has no X account yet (the id is then
+ * resolved on connect) or no account has that handle.
+ */
+export async function resolveCommanderId(botId: number, handle: string): Promise<string | null> {
+  if (!(await storage.getBotXAccount(botId))) return null;
+  try {
+    const user = await xTokenManager.withAccessToken(botId, token => getUserByUsername(token, normalizeHandle(handle)));
+    return user?.id ?? null;
+  } catch (err) {
+    // X answers 400 for handles that aren't valid usernames at all.
+    if (err instanceof XApiError && err.status === 400) return null;
+    throw err;
+  }
+}
+
+/**
+ * Parse a commander tweet. Leading @handles are ignored, so
+ * "@mybot buy <mint> for 0.5 SOL" and "buy <mint> for 0.5 sol" are equivalent.
+ * Amounts are in the native unit of the bot's wallet chain (SOL or ETH).
+ * Returns null when the text is not a command at all.
+ */
+export function parseCommand(text: string, chain: Chain = "solana"): CommandParseResult | null {
+  const words = text.trim().split(/\s+/).filter(Boolean);
+  while (words.length > 0 && words[0].startsWith("@")) words.shift();
+  if (words.length === 0) return null;
+
+  const verb = words[0].toLowerCase() as CommandType;
+  if (!COMMAND_VERBS.includes(verb)) return null;
+  const args = words.slice(1);
+  const symbol = getChain(chain).nativeSymbol;
+  const unit = symbol.toLowerCase();
+  const usage = () => ({ ok: false as const, type: verb, error: `Usage: ${usageFor(verb, symbol)}` });
+
+  switch (verb) {
+    case "pause":
+    case "resume":
+    case "balance":
+      return args.length === 0 ? { ok: true, command: { type: verb } } : usage();
+
+    case "buy":
+    case "sell": {
+      if (chain !== "solana") {
+        return { ok: false, type: verb, error: `Trading is not supported on ${CHAIN_LABELS[chain]} yet` };
+      }
+      let match = args.join(" ").match(new RegExp(`^(\\S+)\\s+(?:for\\s+)?(\\d+(?:\\.\\d+)?)\\s*${unit}$`, "i"));
+      let fields: { amountSol?: number; amountTokens?: number };
+      if (match) {
+        fields = { amountSol: Number(match[2]) };
+      } else if (verb === "sell" && (match = args.join(" ").match(/^(\S+)\s+(\d+(?:\.\d+)?)\s*tokens?$/i))) {
+        fields = { amountTokens: Number(match[2]) };
+      } else {
+        return usage();
+      }
+      const parsed = tradeSchema.safeParse({ action: verb, tokenMint: match[1], ...fields });
+      if (!parsed.success) {
+        return { ok: false, type: verb, error: parsed.error.errors[0].message };
+      }
+      return {
+        ok: true,
+        command: {
+          type: verb,
+          tokenMint: parsed.data.tokenMint,
+          amountSol: parsed.data.amountSol,
+          amountTokens: parsed.data.amountTokens,
+        },
+      };
+    }
+
+    case "withdraw": {
+      const match = args.join(" ").match(new RegExp(`^(\\d+(?:\\.\\d+)?)\\s*(?:${unit}\\s+)?to\\s+(\\S+)$`, "i"));
+      if (!match) return usage();
+      const parsed = withdrawSchema.safeParse({ chain, amountSol: match[1], destinationAddress: match[2] });
+      if (!parsed.success) {
+        return { ok: false, type: verb, error: parsed.error.errors[0].message };
+      }
+      const adapter = getChain(chain);
+      if (!adapter.isValidAddress(parsed.data.destinationAddress)) {
+        return { ok: false, type: verb, error: `Invalid ${CHAIN_LABELS[chain]} destination address` };
+      }
+      return {
+        ok: true,
+        command: {
+          type: "withdraw",
+          destinationAddress: adapter.normalizeAddress(parsed.data.destinationAddress),
+          amountSol: parsed.data.amountSol,
+        },
+      };
+    }
+  }
+}
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 4)}…${address.slice(-4)}`;
+}
+
+/**
+ * Carry out a parsed commander instruction and return the reply to tweet back.
+ */
+export async function executeCommand(bot: Bot, mention: BotMention, command: ParsedCommand): Promise<string> {
+  const status = bot.approvalMode ? "pending_approval" : "pending";
+  const approvalNote = bot.approvalMode ? " Awaiting owner approval." : "";
+
+  switch (command.type) {
+    case "buy":
+    case "sell": {
+      const created = await riskService.guardTrade(bot.id, { tradeType: command.type, tokenMint: command.tokenMint, amountSol: command.amountSol }, { userId: bot.userId, source: "x" }, locked =>
+        locked.createTrade({
+          botId: bot.id,
+          tradeType: command.type,
+          tokenMint: command.tokenMint,
+          tokenSymbol: null,
+          amountSol: command.amountSol?.toString(),
+          amountTokens: command.amountTokens?.toString(),
+          triggeredBy: "x_command",
+          status,
+        }),
+      );
+      if (!created.ok) return `Rejected: ${created.reason}`;
+      const trade = created.value;
+      await storage.createAuditLog({
+        userId: bot.userId, botId: bot.id, action: `trade_${command.type}`,
+        details: { tokenMint: command.tokenMint, amountSol: command.amountSol, amountTokens: command.amountTokens, tradeId: trade.id, mentionId: mention.id },
+        source: "x",
+      });
+      const amount = command.amountSol !== undefined ? `${command.amountSol} SOL` : `${command.amountTokens} tokens`;
+      return `Queued ${command.type} of ${shortAddress(command.tokenMint)} for ${amount} (trade #${trade.id}).${approvalNote}`;
+    }
+
+    case "withdraw": {
+      const wallet = await storage.getBotWallet(bot.id);
+      if (!wallet) return "No wallet found for this agent.";
+      const chain = getChain(wallet.chain);
+      const destination = await addressBook.checkDestination(bot.userId, bot.id, command.destinationAddress, { userId: bot.userId, source: "x" }, chain.id);
+      if (!destination.ok) return `Rejected: ${destination.reason}`;
+      const created = await riskService.guardWithdrawal(bot.id, { amountSol: command.amountSol }, { userId: bot.userId, source: "x" }, locked =>
+        locked.createWithdrawal({
+          botId: bot.id,
+          chain: chain.id,
+          destinationAddress: command.destinationAddress,
+          amountSol: command.amountSol.toString(),
+          triggeredBy: "x_command",
+          status,
+        }),
+      );
+      if (!created.ok) return `Rejected: ${created.reason}`;
+      const withdrawal = created.value;
+      await storage.createAuditLog({
+        userId: bot.userId, botId: bot.id, action: "withdrawal_requested",
+        details: { amount: command.amountSol, chain: chain.id, destination: command.destinationAddress, withdrawalId: withdrawal.id, mentionId: mention.id },
+        source: "x",
+      });
+      return `Queued withdrawal of ${command.amountSol} ${chain.nativeSymbol} to ${shortAddress(command.destinationAddress)} (withdrawal #${withdrawal.id}).${approvalNote}`;
+    }
+
+    case "pause":
+      await storage.updateBot(bot.id, { status: "paused" } as any);
+      await storage.createAuditLog({
+        userId: bot.userId, botId: bot.id, action: "bot_paused",
+        details: { mentionId: mention.id }, source: "x",
+      });
+      return "Pausing. See you when you resume me from the dashboard or with \"resume\".";
+
+    case "resume":
+      await storage.updateBot(bot.id, { status: "active" } as any);
+      await storage.createAuditLog({
+        userId: bot.userId, botId: bot.id, action: "bot_resumed",
+        details: { mentionId: mention.id }, source: "x",
+      });
+      return "Back online.";
+
+    case "balance": {
+      const wallet = await storage.getBotWallet(bot.id);
+      if (!wallet) return "No wallet found for this agent.";
+      const chain = getChain(wallet.chain);
+      const balance = await chain.getNativeBalance(wallet.publicAddress);
+      return `Wallet ${shortAddress(wallet.publicAddress)} holds ${balance.toFixed(4)} ${chain.nativeSymbol}.`;
+    }
+  }
+}
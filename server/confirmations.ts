@@ -0,0 +1,184 @@
+import type { SignatureStatus } from "@solana/web3.js";
+import { Transaction } from "ethers";
+import { storage } from "./storage";
+import { getConnection, broadcastTransaction } from "./solana";
+import { getEvmProvider, getEvmConfirmations, broadcastEvmTransaction } from "./evm";
+import { PollingWorker } from "./worker";
+
+const TICK_INTERVAL_MS = 5 * 1000;
+const BATCH_SIZE = 100;
+const MAX_RETRIES = 3;
+const STALE_CLAIM_MS = 5 * 60 * 1000;
+
+interface TrackedTransaction {
+  id: number;
+  botId: number;
+  chain?: string | null;
+  txHash: string | null;
+  signedTransaction: string | null;
+  lastValidBlockHeight: number | null;
+  retryCount: number | null;
+  submittedAt: Date | null;
+}
+
+interface TrackedKind {
+  name: "trade" | "withdrawal";
+  listSubmitted(): Promise<TrackedTransaction[]>;
+  transition(id: number, data: Record<string, unknown>): Promise<boolean>;
+}
+
+const TRACKED_KINDS: TrackedKind[] = [
+  {
+    name: "trade",
+    listSubmitted: () => storage.getTradesByStatus("submitted", BATCH_SIZE),
+    transition: async (id, data) => !!(await storage.transitionTrade(id, "submitted", data)),
+  },
+  {
+    name: "withdrawal",
+    listSubmitted: () => storage.getWithdrawalsByStatus("submitted", BATCH_SIZE),
+    transition: async (id, data) => !!(await storage.transitionWithdrawal(id, "submitted", data)),
+  },
+];
+
+/**
+ * Follows submitted trades and withdrawals until they are finalized, failed
+ * or expired. An expired blockhash means the transaction can never land, so
+ * the row goes back to "pending" and its executor signs a fresh one. EVM
+ * transactions never expire; they are retried once their nonce has been
+ * consumed by something else.
+ */
+export class ConfirmationTracker extends PollingWorker {
+  constructor() {
+    super("Confirmation tracker", TICK_INTERVAL_MS);
+  }
+
+  protected async tick(): Promise<void> {
+    const connection = getConnection();
+    let finalizedHeight: number | null = null;
+
+    for (const kind of TRACKED_KINDS) {
+      const rows = await kind.listSubmitted();
+      if (rows.length === 0) continue;
+
+      for (const row of rows.filter(r => r.txHash && r.chain === "base")) {
+        try {
+          await this.settleEvm(kind, row);
+        } catch (err) {
+          console.error(`Confirmation error for ${kind.name} ${row.id}:`, err);
+        }
+      }
+
+      const sent = rows.filter(r => r.txHash && r.chain !== "base");
+      if (sent.length > 0 && finalizedHeight === null) finalizedHeight = await connection.getBlockHeight("finalized");
+      const statuses = sent.length > 0
+        ? (await connection.getSignatureStatuses(sent.map(r => r.txHash!), { searchTransactionHistory: true })).value
+        : [];
+
+      for (let i = 0; i < sent.length; i++) {
+        try {
+          await this.settle(kind, sent[i], statuses[i], finalizedHeight!);
+        } catch (err) {
+          console.error(`Confirmation error for ${kind.name} ${sent[i].id}:`, err);
+        }
+      }
+
+      // Claimed but never signed: the executor died before broadcasting.
+      for (const row of rows.filter(r => !r.txHash)) {
+        if (row.submittedAt && Date.now() - row.submittedAt.getTime() > STALE_CLAIM_MS) {
+          await this.retryOrFail(kind, row, "Execution interrupted before broadcast");
+        }
+      }
+    }
+  }
+
+  private async settle(kind: TrackedKind, row: TrackedTransaction, status: SignatureStatus | null, finalizedHeight: number): Promise<void> {
+    if (status?.err) {
+      await this.changeState(kind, row, "failed", { errorMessage: `Transaction failed: ${JSON.stringify(status.err)}` });
+      return;
+    }
+    if (status?.confirmationStatus === "finalized") {
+      await this.changeState(kind, row, "completed", {});
+      return;
+    }
+    if (status) return;
+
+    if (row.lastValidBlockHeight !== null && finalizedHeight > row.lastValidBlockHeight) {
+      await this.retryOrFail(kind, row, "Blockhash expired before confirmation");
+      return;
+    }
+
+    if (row.signedTransaction) {
+      try {
+        await broadcastTransaction(Buffer.from(row.signedTransaction, "base64"));
+      } catch {
+        // Rebroadcasts are best-effort; "already processed" lands here too.
+      }
+    }
+  }
+
+  private async settleEvm(kind: TrackedKind, row: TrackedTransaction): Promise<void> {
+    const evm = getEvmProvider();
+    const tx = row.signedTransaction ? Transaction.from(row.signedTransaction) : null;
+    // Read the nonce before the receipt so a transaction mined in between is
+    // seen as mined rather than replaced.
+    const confirmedNonce = tx?.from ? await evm.getTransactionCount(tx.from, "latest") : null;
+
+    const receipt = await evm.getTransactionReceipt(row.txHash!);
+    if (receipt) {
+      if (receipt.status === 0) {
+        await this.changeState(kind, row, "failed", { errorMessage: "Transaction reverted" });
+      } else if (await receipt.confirmations() >= getEvmConfirmations()) {
+        await this.changeState(kind, row, "completed", {});
+      }
+      return;
+    }
+    if (!tx) return;
+
+    if (confirmedNonce !== null && confirmedNonce > tx.nonce) {
+      await this.retryOrFail(kind, row, "Nonce used by another transaction");
+      return;
+    }
+
+    try {
+      await broadcastEvmTransaction(row.signedTransaction!);
+    } catch {
+      // Rebroadcasts are best-effort; "already known" lands here too.
+    }
+  }
+
+  private async retryOrFail(kind: TrackedKind, row: TrackedTransaction, reason: string): Promise<void> {
+    const retryCount = row.retryCount || 0;
+    if (retryCount >= MAX_RETRIES) {
+      await this.changeState(kind, row, "failed", { errorMessage: `${reason} after ${retryCount} retries` });
+      return;
+    }
+    await this.changeState(kind, row, "pending", {
+      txHash: null,
+      signedTransaction: null,
+      lastValidBlockHeight: null,
+      retryCount: retryCount + 1,
+    }, reason);
+  }
+
+  private async changeState(kind: TrackedKind, row: TrackedTransaction, status: "completed" | "failed" | "pending", data: Record<string, unknown>, reason?: string): Promise<void> {
+    const changed = await kind.transition(row.id, { ...data, status });
+    if (!changed) return;
+
+    const bot = await storage.getBot(row.botId);
+    const action = status === "pending" ? `${kind.name}_retried` : `${kind.name}_${status}`;
+    await storage.createAuditLog({
+      userId: bot?.userId ?? null,
+      botId: row.botId,
+      action,
+      details: {
+        [`${kind.name}Id`]: row.id,
+        txHash: row.txHash,
+        ...(data.errorMessage ? { error: data.errorMessage } : {}),
+        ...(reason ? { reason, attempt: (row.retryCount || 0) + 1 } : {}),
+      },
+      source: "agent",
+    });
+  }
+}
+
+export const confirmationTracker = new ConfirmationTracker();
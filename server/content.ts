@@ -0,0 +1,139 @@
+import type { Bot } from "@shared/schema";
+import { storage } from "./storage";
+import {
+  getLlmProvider, LlmError,
+  type LlmMessage, type LlmProvider, type LlmUsage, type LlmCompletion,
+} from "./llm";
+
+export const TWEET_MAX_LENGTH = 280;
+
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 500;
+const MAX_COMPLETION_TOKENS = 120;
+
+interface PersonalityConfig {
+  tone?: string;
+  emoji_usage?: string;
+  topics?: string[];
+}
+
+export type Persona = Pick<Bot, "id" | "personalityPrompt" | "personalityConfig">;
+
+export type GenerationPurpose = "post" | "reply" | "preview";
+
+export interface GeneratedTweet {
+  text: string;
+  usage: LlmUsage;
+  provider: string;
+  model: string;
+}
+
+function buildSystemPrompt(persona: Persona): string {
+  const config = (persona.personalityConfig || {}) as PersonalityConfig;
+  const lines = [persona.personalityPrompt.trim()];
+  if (config.tone) lines.push(`Tone: ${config.tone}.`);
+  if (config.emoji_usage) lines.push(`Emoji usage: ${config.emoji_usage}.`);
+  if (config.topics?.length) lines.push(`Favourite topics: ${config.topics.join(", ")}.`);
+  lines.push(`Reply with the tweet text only, no quotes or hashtags unless in character, at most ${TWEET_MAX_LENGTH} characters.`);
+  return lines.join("\n");
+}
+
+export function buildPostPrompt(persona: Persona, recentPosts: string[] = []): LlmMessage[] {
+  let userPrompt = "Write your next tweet.";
+  if (recentPosts.length > 0) {
+    userPrompt += `\nDo not repeat these recent tweets:\n${recentPosts.map(p => `- ${p}`).join("\n")}`;
+  }
+  return [
+    { role: "system", content: buildSystemPrompt(persona) },
+    { role: "user", content: userPrompt },
+  ];
+}
+
+export function buildReplyPrompt(persona: Persona, mention: { authorUsername: string; text: string }): LlmMessage[] {
+  return [
+    { role: "system", content: buildSystemPrompt(persona) },
+    {
+      role: "user",
+      content: `@${mention.authorUsername} mentioned you:\n"${mention.text}"\nWrite your reply, staying in character. Do not start with their handle.`,
+    },
+  ];
+}
+
+function cleanTweet(text: string): string {
+  return text.trim().replace(/^"(.*)"$/s, "$1").trim();
+}
+
+export function fitTweet(text: string): string {
+  const cleaned = cleanTweet(text);
+  if (cleaned.length <= TWEET_MAX_LENGTH) return cleaned;
+  const cut = cleaned.slice(0, TWEET_MAX_LENGTH - 1);
+  const lastSpace = cut.lastIndexOf(" ");
+  return `${lastSpace > TWEET_MAX_LENGTH / 2 ? cut.slice(0, lastSpace) : cut}…`;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Run a tweet prompt through the provider. Transient provider errors are
+ * retried with backoff; an over-long answer is sent back once for a shorter
+ * rewrite before being truncated. Token usage is recorded per attempt.
+ */
+export async function completeTweet(
+  persona: Persona,
+  messages: LlmMessage[],
+  purpose: GenerationPurpose,
+  provider: LlmProvider = getLlmProvider(),
+): Promise<GeneratedTweet> {
+  const conversation = [...messages];
+  const usage: LlmUsage = { promptTokens: 0, completionTokens: 0 };
+  let text = "";
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    let completion: LlmCompletion;
+    try {
+      completion = await provider.complete(conversation, { maxTokens: MAX_COMPLETION_TOKENS });
+    } catch (err) {
+      if (err instanceof LlmError && err.retryable && attempt < MAX_ATTEMPTS) {
+        await sleep(RETRY_BASE_DELAY_MS * Math.pow(2, attempt - 1));
+        continue;
+      }
+      throw err;
+    }
+
+    usage.promptTokens += completion.usage.promptTokens;
+    usage.completionTokens += completion.usage.completionTokens;
+    await storage.recordLlmUsage({
+      botId: persona.id || null,
+      provider: provider.name,
+      model: provider.model,
+      purpose,
+      promptTokens: completion.usage.promptTokens,
+      completionTokens: completion.usage.completionTokens,
+    });
+
+    text = cleanTweet(completion.text);
+    if (text.length <= TWEET_MAX_LENGTH || attempt === MAX_ATTEMPTS) break;
+    conversation.push(
+      { role: "assistant", content: completion.text },
+      { role: "user", content: `That is ${text.length} characters. Rewrite it in under ${TWEET_MAX_LENGTH} characters.` },
+    );
+  }
+
+  text = fitTweet(text);
+  if (!text) {
+    throw new Error("Content generation returned an empty tweet");
+  }
+  return { text, usage, provider: provider.name, model: provider.model };
+}
+
+export async function generatePost(bot: Bot, recentPosts: string[] = []): Promise<string> {
+  const result = await completeTweet(bot, buildPostPrompt(bot, recentPosts), "post");
+  return result.text;
+}
+
+export async function generateReply(bot: Bot, mention: { authorUsername: string; text: string }): Promise<string> {
+  const result = await completeTweet(bot, buildReplyPrompt(bot, mention), "reply");
+  return result.text;
+}
@@ -3,8 +3,64 @@ import { Keypair } from "@solana/web3.js";
 import bs58 from "bs58";
 
 const ALGORITHM = "aes-256-gcm";
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const KEY_LENGTH = 32;
+const ENVELOPE_PATTERN = /^v(\d+):([A-Za-z0-9+/=]+):([A-Za-z0-9+/=]+)$/;
 
-function getEncryptionKey(): Buffer {
+interface KeyRing {
+  activeVersion: number;
+  keys: Map<number, Buffer>;
+}
+
+let keyRing: KeyRing | null = null;
+
+/**
+ * Key-encryption keys come from ENCRYPTION_KEYS as comma-separated
+ * "<version>:<base64 32-byte key>" pairs. New data is wrapped with
+ * ENCRYPTION_KEY_VERSION, or the highest version when unset; older versions
+ * stay listed until `rotateEncryptionKeys` has rewrapped everything.
+ */
+function getKeyRing(): KeyRing {
+  if (keyRing) return keyRing;
+
+  const keys = new Map<number, Buffer>();
+  const configured = process.env.ENCRYPTION_KEYS;
+  if (configured) {
+    for (const entry of configured.split(",").map(e => e.trim()).filter(Boolean)) {
+      const [version, encoded] = entry.split(":");
+      const key = Buffer.from(encoded || "", "base64");
+      if (!/^\d+$/.test(version) || key.length !== KEY_LENGTH) {
+        throw new Error(`Invalid ENCRYPTION_KEYS entry for version "${version}"`);
+      }
+      keys.set(parseInt(version, 10), key);
+    }
+  } else {
+    if (process.env.NODE_ENV === "production") {
+      throw new Error("ENCRYPTION_KEYS is required in production");
+    }
+    keys.set(1, createHash("sha256").update("moltcook-dev-only-kek").digest());
+  }
+  if (keys.size === 0) throw new Error("ENCRYPTION_KEYS is empty");
+
+  const activeVersion = process.env.ENCRYPTION_KEY_VERSION
+    ? parseInt(process.env.ENCRYPTION_KEY_VERSION, 10)
+    : Math.max(...Array.from(keys.keys()));
+  if (!keys.has(activeVersion)) {
+    throw new Error(`ENCRYPTION_KEY_VERSION ${activeVersion} is not in ENCRYPTION_KEYS`);
+  }
+  keyRing = { activeVersion, keys };
+  return keyRing;
+}
+
+function getKek(version: number): Buffer {
+  const key = getKeyRing().keys.get(version);
+  if (!key) throw new Error(`Encryption key version ${version} is not configured`);
+  return key;
+}
+
+/** Key used before envelope encryption; only needed to read old ciphertexts. */
+function getLegacyKey(): Buffer {
   const key = process.env.SESSION_SECRET;
   if (!key) {
     if (process.env.NODE_ENV === "production") {
@@ -16,30 +72,84 @@ function getEncryptionKey(): Buffer {
   return createHash("sha256").update(key).digest();
 }
 
-export function encrypt(text: string): string {
-  const key = getEncryptionKey();
-  const iv = randomBytes(16);
+function seal(key: Buffer, plaintext: Buffer, aad?: Buffer): Buffer {
+  const iv = randomBytes(IV_LENGTH);
   const cipher = createCipheriv(ALGORITHM, key, iv);
-  let encrypted = cipher.update(text, "utf8", "hex");
-  encrypted += cipher.final("hex");
-  const authTag = cipher.getAuthTag().toString("hex");
-  return `${iv.toString("hex")}:${authTag}:${encrypted}`;
+  if (aad) cipher.setAAD(aad);
+  const encrypted = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), encrypted]);
 }
 
-export function decrypt(encryptedText: string): string {
-  const key = getEncryptionKey();
-  const parts = encryptedText.split(":");
-  if (parts.length !== 3) throw new Error("Invalid encrypted text format");
-  const iv = Buffer.from(parts[0], "hex");
-  const authTag = Buffer.from(parts[1], "hex");
-  const encrypted = parts[2];
+function unseal(key: Buffer, sealed: Buffer, aad?: Buffer): Buffer {
+  const iv = sealed.subarray(0, IV_LENGTH);
+  const authTag = sealed.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH);
   const decipher = createDecipheriv(ALGORITHM, key, iv);
+  if (aad) decipher.setAAD(aad);
   decipher.setAuthTag(authTag);
-  let decrypted = decipher.update(encrypted, "hex", "utf8");
+  return Buffer.concat([decipher.update(sealed.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+}
+
+function wrapDataKey(version: number, dataKey: Buffer): string {
+  return seal(getKek(version), dataKey, Buffer.from(`v${version}`)).toString("base64");
+}
+
+function unwrapDataKey(version: number, wrapped: string): Buffer {
+  return unseal(getKek(version), Buffer.from(wrapped, "base64"), Buffer.from(`v${version}`));
+}
+
+function decryptLegacy(encryptedText: string): string {
+  const parts = encryptedText.split(":");
+  if (parts.length !== 3) throw new Error("Invalid encrypted text format");
+  const decipher = createDecipheriv(ALGORITHM, getLegacyKey(), Buffer.from(parts[0], "hex"));
+  decipher.setAuthTag(Buffer.from(parts[1], "hex"));
+  let decrypted = decipher.update(parts[2], "hex", "utf8");
   decrypted += decipher.final("utf8");
   return decrypted;
 }
 
+/**
+ * Envelope format: `v<kek version>:<wrapped data key>:<iv|tag|ciphertext>`,
+ * both base64. Every record gets its own random data key, so rotating the
+ * key-encryption key only rewraps the data key and leaves the payload as is.
+ */
+export function encrypt(text: string): string {
+  const { activeVersion } = getKeyRing();
+  const dataKey = randomBytes(KEY_LENGTH);
+  const payload = seal(dataKey, Buffer.from(text, "utf8"));
+  return `v${activeVersion}:${wrapDataKey(activeVersion, dataKey)}:${payload.toString("base64")}`;
+}
+
+export function decrypt(encryptedText: string): string {
+  const match = encryptedText.match(ENVELOPE_PATTERN);
+  if (!match) return decryptLegacy(encryptedText);
+  const dataKey = unwrapDataKey(parseInt(match[1], 10), match[2]);
+  return unseal(dataKey, Buffer.from(match[3], "base64")).toString("utf8");
+}
+
+export function getEncryptionKeyVersion(encryptedText: string): number | null {
+  const match = encryptedText.match(ENVELOPE_PATTERN);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+export function needsReencryption(encryptedText: string): boolean {
+  return getEncryptionKeyVersion(encryptedText) !== getKeyRing().activeVersion;
+}
+
+/**
+ * Bring a ciphertext onto the active key version. Envelope records only have
+ * their data key rewrapped; legacy records are decrypted and sealed afresh.
+ */
+export function reencrypt(encryptedText: string): string {
+  const match = encryptedText.match(ENVELOPE_PATTERN);
+  if (!match) return encrypt(decryptLegacy(encryptedText));
+
+  const { activeVersion } = getKeyRing();
+  const version = parseInt(match[1], 10);
+  if (version === activeVersion) return encryptedText;
+  const dataKey = unwrapDataKey(version, match[2]);
+  return `v${activeVersion}:${wrapDataKey(activeVersion, dataKey)}:${match[3]}`;
+}
+
 export function generateWalletKeypair(): { publicKey: string; privateKey: string } {
   const keypair = Keypair.generate();
   return {
@@ -48,6 +158,18 @@ export function generateWalletKeypair(): { publicKey: string; privateKey: string
   };
 }
 
+/**
+ * Accepts a base58 64-byte secret key, as exported by Phantom and the Solana
+ * CLI. Throws if the key is malformed.
+ */
+export function parseSolanaSecretKey(secret: string): { publicKey: string; privateKey: string } {
+  const keypair = Keypair.fromSecretKey(bs58.decode(secret.trim()));
+  return {
+    publicKey: keypair.publicKey.toBase58(),
+    privateKey: bs58.encode(keypair.secretKey),
+  };
+}
+
 export function isValidSolanaAddress(address: string): boolean {
   try {
     const decoded = bs58.decode(address);
@@ -11,3 +11,6 @@ export const pool = new Pool({
 });
 
 export const db = drizzle(pool, { schema });
+
+/** `db` itself, or a transaction opened on it. */
+export type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
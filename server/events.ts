@@ -0,0 +1,100 @@
+import { randomUUID } from "crypto";
+import type { AuditLog, Bot, BotEventType, BotMention, BotPost, Trade, Withdrawal } from "@shared/schema";
+
+export interface BotEvent {
+  id: string;
+  type: BotEventType;
+  botId: number;
+  createdAt: Date;
+  data: Record<string, unknown>;
+}
+
+/** A row that appears in the activity feeds, as it was just written. */
+export type ActivitySource =
+  | { kind: "post"; row: BotPost }
+  | { kind: "trade"; row: Trade }
+  | { kind: "log"; row: AuditLog };
+
+type BotEventListener = (event: BotEvent) => void | Promise<void>;
+type ActivityListener = (source: ActivitySource) => void | Promise<void>;
+
+const listeners = new Set<BotEventListener>();
+const activityListeners = new Set<ActivityListener>();
+
+function notify<T>(targets: Set<(value: T) => void | Promise<void>>, value: T, label: string): void {
+  for (const listener of Array.from(targets)) {
+    // A failing subscriber must never fail the write that raised the event.
+    Promise.resolve()
+      .then(() => listener(value))
+      .catch(err => console.error(`${label} listener error:`, err));
+  }
+}
+
+/** Subscribe to bot events in this process. Returns an unsubscribe function. */
+export function onBotEvent(listener: BotEventListener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export function onActivity(listener: ActivityListener): () => void {
+  activityListeners.add(listener);
+  return () => activityListeners.delete(listener);
+}
+
+export function publishActivity(source: ActivitySource): void {
+  notify(activityListeners, source, `Activity (${source.kind})`);
+}
+
+function publish(type: BotEventType, botId: number, data: Record<string, unknown>): void {
+  const event: BotEvent = { id: randomUUID(), type, botId, createdAt: new Date(), data };
+  notify(listeners, event, `Bot event (${type})`);
+}
+
+/**
+ * Raised by storage when the matching rows change, so every code path
+ * (workers, approvals, X commands, routes) is covered. Payloads leave out
+ * signed transactions and other internals.
+ */
+export const botEvents = {
+  postPublished(post: BotPost): void {
+    publish("post.published", post.botId, {
+      post: {
+        id: post.id, content: post.content, tweetId: post.tweetId,
+        postType: post.postType, postedAt: post.postedAt,
+      },
+    });
+  },
+
+  mentionReceived(mention: BotMention): void {
+    publish("mention.received", mention.botId, {
+      mention: {
+        id: mention.id, mentionTweetId: mention.mentionTweetId, authorXUsername: mention.authorXUsername,
+        mentionText: mention.mentionText, createdAt: mention.createdAt,
+      },
+    });
+  },
+
+  tradeStatusChanged(trade: Trade): void {
+    publish("trade.status_changed", trade.botId, {
+      trade: {
+        id: trade.id, tradeType: trade.tradeType, tokenMint: trade.tokenMint, tokenSymbol: trade.tokenSymbol,
+        amountSol: trade.amountSol, amountTokens: trade.amountTokens, txHash: trade.txHash,
+        status: trade.status, errorMessage: trade.errorMessage, triggeredBy: trade.triggeredBy,
+      },
+    });
+  },
+
+  withdrawalStatusChanged(withdrawal: Withdrawal): void {
+    publish("withdrawal.status_changed", withdrawal.botId, {
+      withdrawal: {
+        id: withdrawal.id, chain: withdrawal.chain, destinationAddress: withdrawal.destinationAddress,
+        tokenAddress: withdrawal.tokenAddress, amountSol: withdrawal.amountSol, txHash: withdrawal.txHash,
+        status: withdrawal.status, errorMessage: withdrawal.errorMessage, triggeredBy: withdrawal.triggeredBy,
+      },
+    });
+  },
+
+  botPaused(bot: Bot): void {
+    publish("bot.paused", bot.id, { bot: { id: bot.id, botName: bot.botName, status: bot.status } });
+  },
+};
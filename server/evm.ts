@@ -0,0 +1,131 @@
+import {
+  Contract, JsonRpcProvider, Transaction, Wallet, formatEther, formatUnits, getAddress, isAddress, isError,
+  parseEther, parseUnits, type TransactionRequest,
+} from "ethers";
+import { decrypt } from "./crypto";
+
+const DEFAULT_CONFIRMATIONS = 3;
+
+const ERC20_ABI = [
+  "function balanceOf(address owner) view returns (uint256)",
+  "function decimals() view returns (uint8)",
+  "function transfer(address to, uint256 amount) returns (bool)",
+];
+
+let provider: JsonRpcProvider | null = null;
+
+export interface EvmTransferRequest {
+  to: string;
+  /** Decimal amount in ETH, or in whole tokens when tokenAddress is set. */
+  amount: string;
+  tokenAddress?: string | null;
+}
+
+export interface SignedEvmTransfer {
+  txHash: string;
+  signedTransaction: string;
+}
+
+export function getBaseRpcUrl(): string {
+  return process.env.BASE_RPC_URL || "https://mainnet.base.org";
+}
+
+/**
+ * BASE_CHAIN_ID pins the network so a local Anvil/Hardhat node (31337) can
+ * stand in for Base without an extra eth_chainId round trip per call.
+ */
+export function getEvmProvider(): JsonRpcProvider {
+  if (!provider) {
+    const chainId = process.env.BASE_CHAIN_ID ? parseInt(process.env.BASE_CHAIN_ID, 10) : undefined;
+    provider = chainId
+      ? new JsonRpcProvider(getBaseRpcUrl(), chainId, { staticNetwork: true })
+      : new JsonRpcProvider(getBaseRpcUrl());
+  }
+  return provider;
+}
+
+export function getEvmConfirmations(): number {
+  const confirmations = parseInt(process.env.EVM_CONFIRMATIONS || String(DEFAULT_CONFIRMATIONS), 10);
+  return isNaN(confirmations) || confirmations < 1 ? DEFAULT_CONFIRMATIONS : confirmations;
+}
+
+export function generateEvmWallet(): { publicKey: string; privateKey: string } {
+  const wallet = Wallet.createRandom();
+  return { publicKey: wallet.address, privateKey: wallet.privateKey };
+}
+
+export function parseEvmPrivateKey(secret: string): { publicKey: string; privateKey: string } {
+  const trimmed = secret.trim();
+  const wallet = new Wallet(trimmed.startsWith("0x") ? trimmed : `0x${trimmed}`);
+  return { publicKey: wallet.address, privateKey: wallet.privateKey };
+}
+
+export function isValidEvmAddress(address: string): boolean {
+  return isAddress(address);
+}
+
+export function normalizeEvmAddress(address: string): string {
+  return getAddress(address);
+}
+
+export function loadEvmWallet(encryptedPrivateKey: string): Wallet {
+  return new Wallet(decrypt(encryptedPrivateKey), getEvmProvider());
+}
+
+export async function getEthBalance(address: string): Promise<number> {
+  const wei = await getEvmProvider().getBalance(address);
+  return Number(formatEther(wei));
+}
+
+/**
+ * Build and sign a native ETH or ERC-20 transfer without sending it. The
+ * wallet must hold enough ETH to cover the transfer value plus the worst-case
+ * gas cost at the quoted max fee.
+ */
+export async function signEvmTransfer(wallet: Wallet, request: EvmTransferRequest): Promise<SignedEvmTransfer> {
+  const evm = getEvmProvider();
+  let tx: TransactionRequest;
+
+  if (request.tokenAddress) {
+    const token = new Contract(request.tokenAddress, ERC20_ABI, evm);
+    const [decimals, tokenBalance]: [bigint, bigint] = await Promise.all([
+      token.decimals(),
+      token.balanceOf(wallet.address),
+    ]);
+    const amount = parseUnits(request.amount, decimals);
+    if (amount > tokenBalance) {
+      throw new Error(`Insufficient token balance: ${formatUnits(tokenBalance, decimals)} available for withdrawal`);
+    }
+    tx = { to: request.tokenAddress, data: token.interface.encodeFunctionData("transfer", [request.to, amount]), value: 0n };
+  } else {
+    tx = { to: request.to, value: parseEther(request.amount) };
+  }
+
+  const populated = await wallet.populateTransaction(tx);
+  const value = BigInt(populated.value ?? 0);
+  const maxGasCost = BigInt(populated.gasLimit ?? 0) * BigInt(populated.maxFeePerGas ?? populated.gasPrice ?? 0);
+  const balance = await evm.getBalance(wallet.address);
+  if (value + maxGasCost > balance) {
+    const available = balance > maxGasCost ? balance - maxGasCost : 0n;
+    throw new Error(`Insufficient balance: ${formatEther(available)} ETH available for withdrawal`);
+  }
+
+  const signedTransaction = await wallet.signTransaction(populated);
+  return { txHash: Transaction.from(signedTransaction).hash!, signedTransaction };
+}
+
+/**
+ * Same contract as the Solana broadcaster: node rejections are rethrown,
+ * transport errors are swallowed and left to the confirmation tracker.
+ */
+export async function broadcastEvmTransaction(signedTransaction: string): Promise<void> {
+  try {
+    await getEvmProvider().broadcastTransaction(signedTransaction);
+  } catch (err) {
+    if (isError(err, "NETWORK_ERROR") || isError(err, "TIMEOUT") || isError(err, "SERVER_ERROR")) {
+      console.error("Broadcast error:", err);
+      return;
+    }
+    throw err;
+  }
+}
@@ -1,6 +1,14 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { serveStatic } from "./static";
+import { postScheduler } from "./scheduler";
+import { mentionWorker } from "./mentions";
+import { tradeExecutor } from "./trading";
+import { withdrawalProcessor } from "./withdrawals";
+import { confirmationTracker } from "./confirmations";
+import { approvalSweeper } from "./approvals";
+import { webhookService, webhookDispatcher } from "./webhooks";
+import { activityStream } from "./activity-stream";
 import { createServer } from "http";
 import helmet from "helmet";
 import cors from "cors";
@@ -47,8 +55,23 @@ const apiLimiter = rateLimit({
   validate: { xForwardedForHeader: false },
 });
 
+// Key export/import is audited per attempt; this caps password guessing and
+// bulk exfiltration from a hijacked session.
+const walletKeyLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000,
+  max: 5,
+  message: { message: "Too many wallet key requests, please try again later" },
+  standardHeaders: true,
+  legacyHeaders: false,
+  validate: { xForwardedForHeader: false },
+});
+
 app.use("/api/auth/login", authLimiter);
 app.use("/api/auth/register", authLimiter);
+app.use("/api/auth/refresh", authLimiter);
+app.use("/api/auth/step-up", authLimiter);
+app.use("/api/bots/:id/wallet/export", walletKeyLimiter);
+app.use("/api/bots/:id/wallet/import", walletKeyLimiter);
 app.use("/api/", apiLimiter);
 
 app.use(
@@ -73,6 +96,16 @@ export function log(message: string, source = "express") {
   console.log(`${formattedTime} [${source}] ${message}`);
 }
 
+// Responses that hand a secret to the client once: wallet key export, 2FA
+// setup, recovery codes, session and API tokens, webhook signing secrets.
+const SECRET_RESPONSE_FIELDS = new Set([
+  "privateKey", "secret", "otpauthUrl", "recoveryCodes", "token", "refreshToken", "challengeToken",
+]);
+
+function redactSecrets(key: string, value: unknown): unknown {
+  return SECRET_RESPONSE_FIELDS.has(key) ? "[redacted]" : value;
+}
+
 app.use((req, res, next) => {
   const start = Date.now();
   const path = req.path;
@@ -89,7 +122,7 @@ app.use((req, res, next) => {
     if (path.startsWith("/api")) {
       let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
       if (process.env.NODE_ENV !== "production" && capturedJsonResponse) {
-        logLine += ` :: ${JSON.stringify(capturedJsonResponse).slice(0, 500)}`;
+        logLine += ` :: ${JSON.stringify(capturedJsonResponse, redactSecrets).slice(0, 500)}`;
       }
 
       log(logLine);
@@ -100,6 +133,9 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // Deliveries are recorded wherever events happen, even with workers disabled.
+  webhookService.listen();
+  activityStream.listen();
   await registerRoutes(httpServer, app);
 
   app.use((err: any, _req: Request, res: Response, next: NextFunction) => {
@@ -131,6 +167,16 @@ app.use((req, res, next) => {
     },
     () => {
       log(`serving on port ${port}`);
+      if (process.env.DISABLE_WORKERS !== "true") {
+        postScheduler.start();
+        mentionWorker.start();
+        tradeExecutor.start();
+        withdrawalProcessor.start();
+        confirmationTracker.start();
+        approvalSweeper.start();
+        webhookDispatcher.start();
+        log("agent runtime started", "runtime");
+      }
     },
   );
 })();
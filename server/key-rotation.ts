@@ -0,0 +1,81 @@
+import { storage } from "./storage";
+import { needsReencryption, reencrypt } from "./crypto";
+
+const BATCH_SIZE = 100;
+
+export interface RotationSummary {
+  wallets: number;
+  xAccounts: number;
+  totpSecrets: number;
+  webhookSecrets: number;
+  skipped: number;
+}
+
+/**
+ * Rewrap every stored secret under the active key version. Each row is
+ * swapped only if it still holds the ciphertext that was read, so a token
+ * refresh racing the rotation wins and the row is picked up on the next run.
+ * Old key versions must stay configured until a run reports nothing skipped.
+ */
+export async function rotateEncryptionKeys(): Promise<RotationSummary> {
+  const summary: RotationSummary = { wallets: 0, xAccounts: 0, totpSecrets: 0, webhookSecrets: 0, skipped: 0 };
+
+  for (let afterId = 0; ;) {
+    const wallets = await storage.getBotWalletsAfter(afterId, BATCH_SIZE);
+    if (wallets.length === 0) break;
+    for (const wallet of wallets) {
+      if (!needsReencryption(wallet.encryptedPrivateKey)) continue;
+      const swapped = await storage.replaceBotWalletKey(wallet.id, wallet.encryptedPrivateKey, reencrypt(wallet.encryptedPrivateKey));
+      if (swapped) summary.wallets++;
+      else summary.skipped++;
+    }
+    afterId = wallets[wallets.length - 1].id;
+  }
+
+  for (let afterId = 0; ;) {
+    const accounts = await storage.getBotXAccountsAfter(afterId, BATCH_SIZE);
+    if (accounts.length === 0) break;
+    for (const account of accounts) {
+      if (!needsReencryption(account.encryptedAccessToken) && !needsReencryption(account.encryptedRefreshToken)) continue;
+      const swapped = await storage.replaceBotXAccountTokens(account.id, account, {
+        encryptedAccessToken: reencrypt(account.encryptedAccessToken),
+        encryptedRefreshToken: reencrypt(account.encryptedRefreshToken),
+      });
+      if (swapped) summary.xAccounts++;
+      else summary.skipped++;
+    }
+    afterId = accounts[accounts.length - 1].id;
+  }
+
+  for (let afterId = 0; ;) {
+    const users = await storage.getUsersWithTotpAfter(afterId, BATCH_SIZE);
+    if (users.length === 0) break;
+    for (const user of users) {
+      const secret = user.encryptedTotpSecret!;
+      if (!needsReencryption(secret)) continue;
+      const swapped = await storage.replaceUserTotpSecret(user.id, secret, reencrypt(secret));
+      if (swapped) summary.totpSecrets++;
+      else summary.skipped++;
+    }
+    afterId = users[users.length - 1].id;
+  }
+
+  for (let afterId = 0; ;) {
+    const endpoints = await storage.getWebhookEndpointsAfter(afterId, BATCH_SIZE);
+    if (endpoints.length === 0) break;
+    for (const endpoint of endpoints) {
+      if (!needsReencryption(endpoint.encryptedSecret)) continue;
+      const swapped = await storage.replaceWebhookSecret(endpoint.id, endpoint.encryptedSecret, reencrypt(endpoint.encryptedSecret));
+      if (swapped) summary.webhookSecrets++;
+      else summary.skipped++;
+    }
+    afterId = endpoints[endpoints.length - 1].id;
+  }
+
+  await storage.createAuditLog({
+    userId: null, botId: null, action: "encryption_keys_rotated",
+    details: { ...summary },
+    source: "agent",
+  });
+  return summary;
+}
@@ -0,0 +1,174 @@
+import { createHash } from "crypto";
+
+export interface LlmMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface LlmUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface LlmCompletion {
+  text: string;
+  usage: LlmUsage;
+}
+
+export interface LlmCompletionOptions {
+  maxTokens: number;
+  temperature?: number;
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  readonly model: string;
+  complete(messages: LlmMessage[], options: LlmCompletionOptions): Promise<LlmCompletion>;
+}
+
+export class LlmError extends Error {
+  constructor(message: string, readonly retryable: boolean) {
+    super(message);
+    this.name = "LlmError";
+  }
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Any backend that speaks the OpenAI chat-completions API: OpenAI itself,
+ * OpenRouter, Groq, a local Ollama or vLLM server, and so on.
+ */
+export class OpenAICompatibleProvider implements LlmProvider {
+  constructor(
+    readonly name: string,
+    private readonly baseUrl: string,
+    private readonly apiKey: string | undefined,
+    readonly model: string,
+  ) {}
+
+  async complete(messages: LlmMessage[], options: LlmCompletionOptions): Promise<LlmCompletion> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl.replace(/\/$/, "")}/chat/completions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: this.model,
+          messages,
+          max_tokens: options.maxTokens,
+          temperature: options.temperature,
+        }),
+      });
+    } catch (err: any) {
+      throw new LlmError(`${this.name} request failed: ${err.message}`, true);
+    }
+
+    if (!response.ok) {
+      const retryable = response.status === 429 || response.status >= 500;
+      throw new LlmError(`${this.name} returned ${response.status}: ${(await response.text()).slice(0, 200)}`, retryable);
+    }
+
+    const data = await response.json();
+    const text = data.choices?.[0]?.message?.content || "";
+    return {
+      text,
+      usage: {
+        promptTokens: data.usage?.prompt_tokens ?? estimateTokens(messages.map(m => m.content).join("\n")),
+        completionTokens: data.usage?.completion_tokens ?? estimateTokens(text),
+      },
+    };
+  }
+}
+
+const OFFLINE_OPENERS = [
+  "Thinking out loud about",
+  "Hot take on",
+  "Daily reminder about",
+  "Can't stop watching",
+  "Quick thought on",
+];
+
+const OFFLINE_CLOSERS = [
+  "More soon.",
+  "Stay tuned.",
+  "What do you think?",
+  "That's the post.",
+  "Back to building.",
+];
+
+/**
+ * Deterministic stand-in for development and tests: the same messages always
+ * produce the same text, and nothing leaves the machine.
+ */
+export class OfflineProvider implements LlmProvider {
+  readonly name = "offline";
+  readonly model = "offline-stub";
+
+  async complete(messages: LlmMessage[]): Promise<LlmCompletion> {
+    const transcript = messages.map(m => m.content).join("\n");
+    const digest = createHash("sha256").update(transcript).digest();
+    const topicsLine = transcript.match(/^Favourite topics: (.+)\.$/m);
+    const topics = topicsLine ? topicsLine[1].split(",").map(t => t.trim()).filter(Boolean) : ["the market"];
+
+    const text = [
+      OFFLINE_OPENERS[digest[0] % OFFLINE_OPENERS.length],
+      `${topics[digest[1] % topics.length]}.`,
+      OFFLINE_CLOSERS[digest[2] % OFFLINE_CLOSERS.length],
+    ].join(" ");
+
+    return {
+      text,
+      usage: { promptTokens: estimateTokens(transcript), completionTokens: estimateTokens(text) },
+    };
+  }
+}
+
+const providers = new Map<string, LlmProvider>();
+
+export function registerLlmProvider(provider: LlmProvider): void {
+  providers.set(provider.name, provider);
+}
+
+registerLlmProvider(new OfflineProvider());
+if (process.env.OPENAI_API_KEY) {
+  registerLlmProvider(new OpenAICompatibleProvider(
+    "openai",
+    process.env.OPENAI_BASE_URL || "https://api.openai.com/v1",
+    process.env.OPENAI_API_KEY,
+    process.env.OPENAI_MODEL || "gpt-4o-mini",
+  ));
+}
+if (process.env.LLM_BASE_URL) {
+  registerLlmProvider(new OpenAICompatibleProvider(
+    "compatible",
+    process.env.LLM_BASE_URL,
+    process.env.LLM_API_KEY,
+    process.env.LLM_MODEL || "default",
+  ));
+}
+
+/**
+ * LLM_PROVIDER picks a registered provider by name; without it, OpenAI is used
+ * when configured. The offline stub is the fallback only outside production,
+ * where it has to be chosen explicitly with LLM_PROVIDER=offline.
+ */
+export function getLlmProvider(name = process.env.LLM_PROVIDER): LlmProvider {
+  let resolved = name || (providers.has("openai") ? "openai" : undefined);
+  if (!resolved) {
+    if (process.env.NODE_ENV === "production") {
+      throw new Error("No LLM provider configured; set OPENAI_API_KEY or LLM_PROVIDER");
+    }
+    resolved = "offline";
+  }
+  const provider = providers.get(resolved);
+  if (!provider) {
+    throw new Error(`LLM provider "${resolved}" is not configured`);
+  }
+  return provider;
+}
@@ -0,0 +1,227 @@
+import { storage } from "./storage";
+import { xTokenManager } from "./x-tokens";
+import { getMentions, postTweet, type XMention } from "./x";
+import { generateReply, fitTweet } from "./content";
+import { isCommander, resolveCommanderId, parseCommand, executeCommand, type CommandType, type CommandParseResult } from "./commands";
+import { getChain } from "./chains";
+import { PollingWorker } from "./worker";
+import type { Bot, BotMention } from "@shared/schema";
+
+const TICK_INTERVAL_MS = 15 * 1000;
+const MIN_CHECK_INTERVAL_SECONDS = 15;
+const DEFAULT_CHECK_INTERVAL_SECONDS = 60;
+
+export class MentionWorker extends PollingWorker {
+  private lastCheckedAt = new Map<number, number>();
+  private commanderLookups = new Set<number>();
+
+  constructor() {
+    super("Mention worker", TICK_INTERVAL_MS);
+  }
+
+  protected async tick(): Promise<void> {
+    const now = Date.now();
+    // Paused bots are still polled so their commander can "resume" them; only
+    // commander commands are acted on while paused.
+    const pollableBots = await storage.getBotsByStatus(["active", "paused"]);
+    for (const bot of pollableBots) {
+      const intervalSeconds = Math.max(bot.mentionCheckIntervalSeconds || DEFAULT_CHECK_INTERVAL_SECONDS, MIN_CHECK_INTERVAL_SECONDS);
+      const lastChecked = this.lastCheckedAt.get(bot.id) || 0;
+      if (now - lastChecked < intervalSeconds * 1000) continue;
+      this.lastCheckedAt.set(bot.id, now);
+
+      try {
+        await this.checkMentions(bot);
+      } catch (err) {
+        console.error(`Mention check error for bot ${bot.id}:`, err);
+      }
+    }
+  }
+
+  async checkMentions(bot: Bot): Promise<void> {
+    const xAccount = await storage.getBotXAccount(bot.id);
+    if (!xAccount?.xUserId) return;
+
+    const xUserId = xAccount.xUserId;
+    const { mentions, truncated } = await xTokenManager.withAccessToken(bot.id, token => getMentions(token, xUserId, bot.lastMentionId));
+    if (mentions.length === 0) return;
+
+    // A bot without a cursor has never been polled: start from the newest
+    // mention instead of replying to the account's whole backlog.
+    if (!bot.lastMentionId) {
+      await storage.updateBot(bot.id, { lastMentionId: mentions[mentions.length - 1].id } as any);
+      return;
+    }
+
+    if (!bot.transactionCommanderXId) bot = await this.pinCommander(bot);
+
+    // Only the newest pages are fetched and the cursor moves past everything
+    // older, so record the gap rather than losing those mentions silently.
+    if (truncated) {
+      await storage.createAuditLog({
+        userId: bot.userId, botId: bot.id, action: "mentions_skipped",
+        details: { afterMentionId: bot.lastMentionId, resumedAtMentionId: mentions[0].id },
+        source: "x",
+      });
+    }
+
+    let paused = bot.status !== "active";
+    for (const mention of mentions) {
+      if (mention.authorId !== xUserId) {
+        const commandType = await this.handleMention(bot, mention, paused);
+        if (commandType === "pause") paused = true;
+        if (commandType === "resume") paused = false;
+      }
+      await storage.updateBot(bot.id, { lastMentionId: mention.id } as any);
+    }
+  }
+
+  private async handleMention(bot: Bot, mention: XMention, paused: boolean): Promise<CommandType | null> {
+    let stored = await storage.createMention({
+      botId: bot.id,
+      mentionTweetId: mention.id,
+      authorXId: mention.authorId,
+      authorXUsername: mention.authorUsername,
+      mentionText: mention.text,
+    });
+
+    if (stored) {
+      await storage.createAuditLog({
+        userId: bot.userId, botId: bot.id, action: "mention_received",
+        details: { mentionId: stored.id, mentionTweetId: mention.id, author: mention.authorUsername },
+        source: "x",
+      });
+    } else {
+      stored = await storage.getMentionByTweetId(mention.id);
+      if (!stored || stored.replyStatus !== "pending") return null;
+    }
+
+    // Claimed before anything runs: a crash from here on leaves the mention in
+    // "processing", which is never picked up again, so a command can't be
+    // executed twice.
+    const claimed = await storage.transitionMention(stored.id, "pending", { replyStatus: "processing" });
+    if (!claimed) return null;
+    stored = claimed;
+
+    // Recorded as a command by an earlier run that didn't get as far as
+    // replying; it may already have queued a trade or withdrawal.
+    if (stored.commandParsed) {
+      await storage.updateMention(stored.id, { replyStatus: "failed", processedAt: new Date() });
+      await storage.createAuditLog({
+        userId: bot.userId, botId: bot.id, action: "command_not_replayed",
+        details: { mentionId: stored.id, commandType: stored.commandType },
+        source: "x",
+      });
+      return null;
+    }
+
+    let result: CommandParseResult | null = null;
+    if (isCommander(bot, mention.authorId)) {
+      const wallet = await storage.getBotWallet(bot.id);
+      result = parseCommand(mention.text, getChain(wallet?.chain).id);
+    }
+    if (result) {
+      const commandType = result.ok ? result.command.type : result.type;
+      await storage.updateMention(stored.id, {
+        isCommand: true,
+        commandType,
+        commandParsed: result.ok ? result.command : { error: result.error },
+      });
+      await storage.createAuditLog({
+        userId: bot.userId, botId: bot.id, action: "command_received",
+        details: { mentionId: stored.id, commandType, parsed: result.ok ? result.command : null, error: result.ok ? undefined : result.error },
+        source: "x",
+      });
+
+      let replyText: string;
+      try {
+        replyText = result.ok ? await executeCommand(bot, stored, result.command) : result.error;
+      } catch (err: any) {
+        console.error(`Command error for bot ${bot.id}:`, err);
+        replyText = `Could not run ${commandType}: ${err.message}`;
+      }
+      await this.replyToMention(bot, stored, replyText);
+      return result.ok ? result.command.type : null;
+    }
+
+    if (paused) {
+      await storage.updateMention(stored.id, { replyStatus: "skipped", processedAt: new Date() });
+      return null;
+    }
+
+    await this.replyToMention(bot, stored);
+    return null;
+  }
+
+  /**
+   * Bots saved before commander ids were stored, or whose handle didn't
+   * resolve at the time, get one definite lookup per process. A lookup that
+   * errors throws, so the poll is abandoned before the cursor moves and the
+   * same mentions are retried on the next check rather than handled as if
+   * no commander were set.
+   */
+  private async pinCommander(bot: Bot): Promise<Bot> {
+    if (this.commanderLookups.has(bot.id)) return bot;
+    const commanderId = await resolveCommanderId(bot.id, bot.transactionCommanderX);
+    this.commanderLookups.add(bot.id);
+    if (!commanderId) return bot;
+    return (await storage.updateBot(bot.id, { transactionCommanderXId: commanderId } as any)) ?? bot;
+  }
+
+  private async replyToMention(bot: Bot, mention: BotMention, presetReply?: string): Promise<void> {
+    let replyText: string;
+    try {
+      replyText = presetReply !== undefined
+        ? fitTweet(presetReply)
+        : await generateReply(bot, { authorUsername: mention.authorXUsername, text: mention.mentionText });
+    } catch (err: any) {
+      await storage.updateMention(mention.id, { replyStatus: "failed", processedAt: new Date() });
+      await storage.createAuditLog({
+        userId: bot.userId, botId: bot.id, action: "reply_failed",
+        details: { mentionId: mention.id, error: err.message },
+        source: "agent",
+      });
+      return;
+    }
+
+    if (presetReply === undefined && bot.approvalMode) {
+      await storage.updateMention(mention.id, { replyStatus: "pending_approval", replyText });
+      await storage.createAuditLog({
+        userId: bot.userId, botId: bot.id, action: "approval_requested",
+        details: { kind: "reply", mentionId: mention.id },
+        source: "agent",
+      });
+      return;
+    }
+
+    await this.publishReply(bot, mention, replyText);
+  }
+
+  async publishReply(bot: Bot, mention: BotMention, replyText: string): Promise<void> {
+    // Marked before publishing: a crash mid-request leaves the mention in
+    // "sending", which is never retried, rather than risking a double reply.
+    await storage.updateMention(mention.id, { replyStatus: "sending", replyText });
+    const post = await storage.createPost({ botId: bot.id, content: replyText, postType: "reply", status: "pending" });
+
+    try {
+      const tweet = await xTokenManager.withAccessToken(bot.id, token => postTweet(token, replyText, mention.mentionTweetId));
+      await storage.updateMention(mention.id, { replyStatus: "replied", replyTweetId: tweet.id, processedAt: new Date() });
+      await storage.updatePost(post.id, { status: "posted", tweetId: tweet.id, postedAt: new Date() });
+      await storage.createAuditLog({
+        userId: bot.userId, botId: bot.id, action: "mention_replied",
+        details: { mentionId: mention.id, postId: post.id, replyTweetId: tweet.id },
+        source: "agent",
+      });
+    } catch (err: any) {
+      await storage.updateMention(mention.id, { replyStatus: "failed", processedAt: new Date() });
+      await storage.updatePost(post.id, { status: "failed", errorMessage: err.message });
+      await storage.createAuditLog({
+        userId: bot.userId, botId: bot.id, action: "reply_failed",
+        details: { mentionId: mention.id, postId: post.id, error: err.message },
+        source: "agent",
+      });
+    }
+  }
+}
+
+export const mentionWorker = new MentionWorker();
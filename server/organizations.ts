@@ -0,0 +1,98 @@
+import { storage } from "./storage";
+import type { Bot, Organization, OrganizationMember, OrgRole, User } from "@shared/schema";
+
+export class OrganizationError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "OrganizationError";
+  }
+}
+
+/**
+ * Team workspaces. Members hold one role per organization, and bots shared
+ * with the organization inherit those roles (see permissions.ts). Every
+ * organization keeps at least one owner.
+ */
+export class OrganizationService {
+  async create(user: User, name: string): Promise<Organization> {
+    const organization = await storage.createOrganization(name, user.id);
+    await this.audit(user.id, "org_created", { organizationId: organization.id, name });
+    return organization;
+  }
+
+  async requireRole(organizationId: number, userId: number, role?: OrgRole): Promise<OrganizationMember> {
+    const member = await storage.getOrganizationMember(organizationId, userId);
+    if (!member) throw new OrganizationError("Organization not found", 404);
+    if (role && member.role !== role) {
+      throw new OrganizationError(`Only organization ${role}s can do this`, 403);
+    }
+    return member;
+  }
+
+  async addMember(actor: User, organizationId: number, username: string, role: OrgRole): Promise<OrganizationMember> {
+    await this.requireRole(organizationId, actor.id, "owner");
+    const invitee = await storage.getUserByUsername(username);
+    if (!invitee) throw new OrganizationError("User not found", 404);
+
+    const member = await storage.addOrganizationMember(organizationId, invitee.id, role);
+    if (!member) throw new OrganizationError("User is already a member", 409);
+    await this.audit(actor.id, "org_member_added", { organizationId, memberId: invitee.id, username, role });
+    return member;
+  }
+
+  async changeRole(actor: User, organizationId: number, userId: number, role: OrgRole): Promise<OrganizationMember> {
+    await this.requireRole(organizationId, actor.id, "owner");
+    const current = await storage.getOrganizationMember(organizationId, userId);
+    if (!current) throw new OrganizationError("Member not found", 404);
+    if (current.role === "owner" && role !== "owner") await this.assertNotLastOwner(organizationId);
+
+    const member = await storage.updateOrganizationMemberRole(organizationId, userId, role);
+    if (!member) throw new OrganizationError("Member not found", 404);
+    await this.audit(actor.id, "org_member_role_changed", { organizationId, memberId: userId, from: current.role, to: role });
+    return member;
+  }
+
+  /** Owners can remove anyone; any member can remove themselves. */
+  async removeMember(actor: User, organizationId: number, userId: number): Promise<void> {
+    await this.requireRole(organizationId, actor.id, actor.id === userId ? undefined : "owner");
+    const current = await storage.getOrganizationMember(organizationId, userId);
+    if (!current) throw new OrganizationError("Member not found", 404);
+    if (current.role === "owner") await this.assertNotLastOwner(organizationId);
+
+    await storage.removeOrganizationMember(organizationId, userId);
+    await this.audit(actor.id, "org_member_removed", { organizationId, memberId: userId });
+  }
+
+  /**
+   * Only the bot's creator can move it between workspaces, and only into an
+   * organization they own.
+   */
+  async shareBot(actor: User, bot: Bot, organizationId: number | null): Promise<Bot> {
+    if (bot.userId !== actor.id) {
+      throw new OrganizationError("Only the agent's creator can change where it is shared", 403);
+    }
+    if (organizationId !== null) {
+      await this.requireRole(organizationId, actor.id, "owner");
+    }
+    const updated = await storage.updateBot(bot.id, { organizationId });
+    if (!updated) throw new OrganizationError("Bot not found", 404);
+    await storage.createAuditLog({
+      userId: actor.id, botId: bot.id, action: organizationId === null ? "bot_unshared" : "bot_shared",
+      details: { organizationId, previousOrganizationId: bot.organizationId },
+      source: "web",
+    });
+    return updated;
+  }
+
+  private async assertNotLastOwner(organizationId: number): Promise<void> {
+    if (await storage.countOrganizationOwners(organizationId) <= 1) {
+      throw new OrganizationError("An organization needs at least one owner", 409);
+    }
+  }
+
+  private async audit(userId: number, action: string, details: Record<string, unknown>): Promise<void> {
+    await storage.createAuditLog({ userId, botId: null, action, details, source: "web" });
+  }
+}
+
+export const organizationService = new OrganizationService();
@@ -0,0 +1,73 @@
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+import { tokenAllowsBot, tokenHasScope } from "./api-tokens";
+import type { ApiToken, ApiTokenScope, Bot, OrgRole, User } from "@shared/schema";
+
+export type BotPermission = "view" | "operate" | "manage";
+
+const ROLE_RANK: Record<OrgRole, number> = { viewer: 0, operator: 1, owner: 2 };
+
+// viewer: read-only; operator: posts, trades and approvals within risk limits;
+// owner: withdrawals, wallet keys, risk policy, X account and deletion.
+const REQUIRED_RANK: Record<BotPermission, number> = { view: 0, operate: 1, manage: 2 };
+
+/**
+ * The bot's creator is always its owner. Anyone else gets the role they hold
+ * in the organization the bot is shared with, if any.
+ */
+export async function getBotRole(user: User, bot: Bot): Promise<OrgRole | null> {
+  if (bot.userId === user.id) return "owner";
+  if (!bot.organizationId) return null;
+  const member = await storage.getOrganizationMember(bot.organizationId, user.id);
+  return (member?.role as OrgRole) ?? null;
+}
+
+export function roleAllows(role: OrgRole, permission: BotPermission): boolean {
+  return ROLE_RANK[role] >= REQUIRED_RANK[permission];
+}
+
+/**
+ * Route guard for /api/bots/:id/*. Must run after authMiddleware. Leaves the
+ * bot on `req.bot` and the caller's role on `req.botRole`. Bots the caller
+ * cannot see at all are reported as missing rather than forbidden.
+ *
+ * API token requests additionally need `scope` ("read" for view routes);
+ * routes that declare no scope are session-only.
+ */
+export function requireBotAccess(permission: BotPermission, scope?: ApiTokenScope | ((req: Request) => ApiTokenScope | undefined)) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const user = (req as any).user as User;
+      const raw = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+      const botId = parseInt(raw, 10);
+      if (isNaN(botId)) return res.status(400).json({ message: "Invalid bot ID" });
+
+      const bot = await storage.getBot(botId);
+      const role = bot ? await getBotRole(user, bot) : null;
+      if (!bot || !role) {
+        return res.status(404).json({ message: "Bot not found" });
+      }
+      if (!roleAllows(role, permission)) {
+        return res.status(403).json({ message: `Your ${role} role does not allow this action` });
+      }
+
+      const apiToken = (req as any).apiToken as ApiToken | undefined;
+      if (apiToken) {
+        if (!tokenAllowsBot(apiToken, bot.id)) {
+          return res.status(404).json({ message: "Bot not found" });
+        }
+        const required = typeof scope === "function" ? scope(req) : scope ?? (permission === "view" ? "read" : undefined);
+        if (!required || !tokenHasScope(apiToken, required)) {
+          return res.status(403).json({ message: "This API token is not allowed to perform this action" });
+        }
+      }
+
+      (req as any).bot = bot;
+      (req as any).botRole = role;
+      next();
+    } catch (err) {
+      console.error("Bot access error:", err);
+      res.status(500).json({ message: "Failed to check permissions" });
+    }
+  };
+}
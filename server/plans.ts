@@ -0,0 +1,76 @@
+import { storage } from "./storage";
+import { DEFAULT_PLAN_LIMITS, PLANS, type Plan, type PlanLimits, type User } from "@shared/schema";
+import type { RiskCheck } from "./risk";
+
+let planLimits: Record<Plan, PlanLimits> | null = null;
+
+/**
+ * Limits per plan. PLAN_LIMITS may hold a JSON object of partial overrides,
+ * e.g. {"pro":{"maxAgents":10}}, so limits can change without a release.
+ */
+export function getPlanLimits(plan: string | null | undefined): PlanLimits {
+  if (!planLimits) {
+    let overrides: Partial<Record<Plan, Partial<PlanLimits>>> = {};
+    if (process.env.PLAN_LIMITS) {
+      try {
+        overrides = JSON.parse(process.env.PLAN_LIMITS);
+      } catch {
+        console.error("Ignoring invalid PLAN_LIMITS JSON");
+      }
+    }
+    planLimits = Object.fromEntries(
+      PLANS.map(p => [p, { ...DEFAULT_PLAN_LIMITS[p], ...overrides[p] }]),
+    ) as Record<Plan, PlanLimits>;
+  }
+  const id = PLANS.includes(plan as Plan) ? plan as Plan : "free";
+  return planLimits[id];
+}
+
+export function getUserPlan(user: Pick<User, "plan">): Plan {
+  return PLANS.includes(user.plan as Plan) ? user.plan as Plan : "free";
+}
+
+/**
+ * Plan quotas sit above the per-bot risk policy: an owner can tighten their
+ * own limits but never loosen them past what the plan allows.
+ */
+export class QuotaService {
+  async getUsage(user: User): Promise<{ plan: Plan; limits: PlanLimits; usage: { agents: number } }> {
+    const plan = getUserPlan(user);
+    const agents = await storage.countBotsByUser(user.id);
+    return { plan, limits: getPlanLimits(plan), usage: { agents } };
+  }
+
+  async checkAgentQuota(user: User): Promise<RiskCheck> {
+    const { plan, limits, usage } = await this.getUsage(user);
+    if (usage.agents >= limits.maxAgents) {
+      return { ok: false, reason: `Your ${plan} plan allows ${limits.maxAgents} agent${limits.maxAgents === 1 ? "" : "s"}` };
+    }
+    return { ok: true };
+  }
+
+  /**
+   * Bots are held to their owner's plan, whoever in the organization is acting.
+   */
+  async getOwnerPlan(botId: number): Promise<Plan> {
+    const bot = await storage.getBot(botId);
+    const owner = bot ? await storage.getUser(bot.userId) : undefined;
+    return owner ? getUserPlan(owner) : "free";
+  }
+
+  checkPostingInterval(plan: Plan, minutes: number | undefined): RiskCheck {
+    if (minutes === undefined) return { ok: true };
+    const floor = getPlanLimits(plan).minPostingIntervalMinutes;
+    if (minutes < floor) {
+      return { ok: false, reason: `This agent's ${plan} plan allows posting at most every ${floor} minutes` };
+    }
+    return { ok: true };
+  }
+
+  async getTradeCap(botId: number): Promise<{ plan: Plan; maxTradeSol: number }> {
+    const plan = await this.getOwnerPlan(botId);
+    return { plan, maxTradeSol: getPlanLimits(plan).maxTradeSol };
+  }
+}
+
+export const quotas = new QuotaService();
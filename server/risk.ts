@@ -0,0 +1,195 @@
+import { storage, type IStorage } from "./storage";
+import { DEFAULT_RISK_LIMITS, CHAIN_LABELS, type Chain } from "@shared/schema";
+import { quotas } from "./plans";
+import { getChain, type ChainAdapter } from "./chains";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RiskLimits {
+  /** Chain whose native coin the amounts are in. */
+  chain: Chain;
+  maxTradeSol: number;
+  dailySpendSol: number;
+  weeklySpendSol: number;
+  maxWithdrawSolPerDay: number;
+  allowedMints: string[];
+  deniedMints: string[];
+  tokenWithdrawLimits: Record<string, number>;
+}
+
+export type RiskCheck = { ok: true } | { ok: false; reason: string };
+
+export type Guarded<T> = { ok: true; value: T } | { ok: false; reason: string };
+
+export interface RiskContext {
+  userId: number | null;
+  source: string;
+}
+
+/**
+ * Per-bot spending policy, applied to every path that creates or releases a
+ * trade or withdrawal. Each check runs under the bot's lock together with the
+ * write it allows, so concurrent requests can't each pass and together go over
+ * a cap. Rejections are written to the audit log here so each caller only has
+ * to surface the reason.
+ */
+export class RiskService {
+  defaultLimits(chain: Chain): RiskLimits {
+    return { chain, ...DEFAULT_RISK_LIMITS[chain], allowedMints: [], deniedMints: [], tokenWithdrawLimits: {} };
+  }
+
+  /** The bot's policy, or the defaults for its wallet's chain when it has none. */
+  async getLimits(botId: number, store: IStorage = storage): Promise<RiskLimits> {
+    const policy = await store.getRiskPolicy(botId);
+    if (!policy) {
+      const wallet = await store.getBotWallet(botId);
+      return this.defaultLimits(getChain(wallet?.chain).id);
+    }
+    return {
+      chain: getChain(policy.chain).id,
+      maxTradeSol: parseFloat(policy.maxTradeSol),
+      dailySpendSol: parseFloat(policy.dailySpendSol),
+      weeklySpendSol: parseFloat(policy.weeklySpendSol),
+      maxWithdrawSolPerDay: parseFloat(policy.maxWithdrawSolPerDay),
+      allowedMints: policy.allowedMints || [],
+      deniedMints: policy.deniedMints || [],
+      tokenWithdrawLimits: policy.tokenWithdrawLimits || {},
+    };
+  }
+
+  /**
+   * Check a trade and, if it passes, run `commit` to create or release it.
+   * `commit` must write through the locked storage it is given.
+   */
+  async guardTrade<T>(
+    botId: number,
+    trade: { tradeType: string; tokenMint: string; amountSol?: number | null },
+    context: RiskContext,
+    commit: (locked: IStorage) => Promise<T>,
+  ): Promise<Guarded<T>> {
+    // Read before taking the lock: the plan cap doesn't depend on spending.
+    const planCap = await quotas.getTradeCap(botId);
+    const result = await storage.withBotLock(botId, async (locked): Promise<Guarded<T>> => {
+      const check = await this.evaluateTrade(locked, botId, trade, planCap);
+      return check.ok ? { ok: true, value: await commit(locked) } : check;
+    });
+    if (!result.ok) {
+      await storage.createAuditLog({
+        userId: context.userId, botId, action: "trade_rejected",
+        details: { reason: result.reason, ...trade },
+        source: context.source,
+      });
+    }
+    return result;
+  }
+
+  /** As guardTrade, for a withdrawal. */
+  async guardWithdrawal<T>(
+    botId: number,
+    withdrawal: { amountSol: number; tokenAddress?: string | null },
+    context: RiskContext,
+    commit: (locked: IStorage) => Promise<T>,
+  ): Promise<Guarded<T>> {
+    const result = await storage.withBotLock(botId, async (locked): Promise<Guarded<T>> => {
+      const check = await this.evaluateWithdrawal(locked, botId, withdrawal);
+      return check.ok ? { ok: true, value: await commit(locked) } : check;
+    });
+    if (!result.ok) {
+      await storage.createAuditLog({
+        userId: context.userId, botId, action: "withdrawal_rejected",
+        details: { reason: result.reason, amount: withdrawal.amountSol },
+        source: context.source,
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Limits that apply to the bot's current wallet. A policy written for
+   * another chain (the wallet was replaced since) is not converted: amounts in
+   * SOL mean nothing for an ETH wallet, so it blocks spending until updated.
+   */
+  private async applicableLimits(store: IStorage, botId: number): Promise<{ ok: true; limits: RiskLimits; chain: ChainAdapter } | { ok: false; reason: string }> {
+    const wallet = await store.getBotWallet(botId);
+    const chain = getChain(wallet?.chain);
+    const limits = await this.getLimits(botId, store);
+    if (limits.chain !== chain.id) {
+      return {
+        ok: false,
+        reason: `This agent's risk limits are set in ${getChain(limits.chain).nativeSymbol} but its wallet is on ${CHAIN_LABELS[chain.id]}; update them first`,
+      };
+    }
+    return { ok: true, limits, chain };
+  }
+
+  private async evaluateTrade(
+    store: IStorage,
+    botId: number,
+    trade: { tradeType: string; tokenMint: string; amountSol?: number | null },
+    planCap: { plan: string; maxTradeSol: number },
+  ): Promise<RiskCheck> {
+    const applicable = await this.applicableLimits(store, botId);
+    if (!applicable.ok) return applicable;
+    const { limits, chain } = applicable;
+    const symbol = chain.nativeSymbol;
+
+    if (limits.deniedMints.includes(trade.tokenMint)) {
+      return { ok: false, reason: "Token is on this agent's denylist" };
+    }
+    if (limits.allowedMints.length > 0 && !limits.allowedMints.includes(trade.tokenMint)) {
+      return { ok: false, reason: "Token is not on this agent's allowlist" };
+    }
+
+    const amountSol = trade.amountSol ?? 0;
+    if (amountSol > limits.maxTradeSol) {
+      return { ok: false, reason: `Trade exceeds the ${limits.maxTradeSol} ${symbol} per-trade limit` };
+    }
+    if (amountSol > planCap.maxTradeSol) {
+      return { ok: false, reason: `Trade exceeds the ${planCap.maxTradeSol} ${symbol} per-trade limit of the ${planCap.plan} plan` };
+    }
+    if (trade.tradeType !== "buy" || amountSol === 0) {
+      return { ok: true };
+    }
+
+    const now = Date.now();
+    const daySpend = await store.sumTradeSpendSince(botId, new Date(now - DAY_MS));
+    const weekSpend = await store.sumTradeSpendSince(botId, new Date(now - 7 * DAY_MS));
+    if (daySpend + amountSol > limits.dailySpendSol) {
+      return { ok: false, reason: `Trade would exceed the ${limits.dailySpendSol} ${symbol} daily spend cap (${daySpend} ${symbol} used)` };
+    }
+    if (weekSpend + amountSol > limits.weeklySpendSol) {
+      return { ok: false, reason: `Trade would exceed the ${limits.weeklySpendSol} ${symbol} weekly spend cap (${weekSpend} ${symbol} used)` };
+    }
+    return { ok: true };
+  }
+
+  private async evaluateWithdrawal(store: IStorage, botId: number, withdrawal: { amountSol: number; tokenAddress?: string | null }): Promise<RiskCheck> {
+    const applicable = await this.applicableLimits(store, botId);
+    if (!applicable.ok) return applicable;
+    const { limits, chain } = applicable;
+    const since = new Date(Date.now() - DAY_MS);
+
+    // Token amounts can't be compared with the native-coin cap, so each token
+    // needs a cap of its own before it can leave the wallet.
+    if (withdrawal.tokenAddress) {
+      const cap = limits.tokenWithdrawLimits[withdrawal.tokenAddress];
+      if (cap === undefined) {
+        return { ok: false, reason: "This token has no daily withdrawal limit; add one to the agent's risk limits first" };
+      }
+      const withdrawnTokens = await store.sumTokenWithdrawalsSince(botId, since, withdrawal.tokenAddress);
+      if (withdrawnTokens + withdrawal.amountSol > cap) {
+        return { ok: false, reason: `Withdrawal would exceed this token's ${cap} daily withdrawal limit (${withdrawnTokens} used)` };
+      }
+      return { ok: true };
+    }
+
+    const symbol = chain.nativeSymbol;
+    const withdrawn = await store.sumWithdrawalsSince(botId, since, chain.id);
+    if (withdrawn + withdrawal.amountSol > limits.maxWithdrawSolPerDay) {
+      return { ok: false, reason: `Withdrawal would exceed the ${limits.maxWithdrawSolPerDay} ${symbol} daily withdrawal limit (${withdrawn} ${symbol} used)` };
+    }
+    return { ok: true };
+  }
+}
+
+export const riskService = new RiskService();
@@ -0,0 +1,15 @@
+import { rotateEncryptionKeys } from "./key-rotation";
+import { pool } from "./db";
+
+// Usage: ENCRYPTION_KEYS="2:<new>,1:<old>" npx tsx server/rotate-keys.ts
+rotateEncryptionKeys()
+  .then(summary => {
+    console.log(`Rewrapped ${summary.wallets} wallet keys, ${summary.xAccounts} X accounts, ${summary.totpSecrets} 2FA secrets ` +
+      `and ${summary.webhookSecrets} webhook secrets` +
+      (summary.skipped > 0 ? `; ${summary.skipped} rows changed during rotation, run again to finish` : ""));
+  })
+  .catch(err => {
+    console.error("Key rotation failed:", err);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -3,39 +3,60 @@ import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import {
   registerSchema, loginSchema, createBotSchema, updateBotSchema,
-  withdrawSchema, tradeSchema, changePasswordSchema,
+  withdrawSchema, tradeSchema, changePasswordSchema, previewSchema,
+  queuePostSchema, updateQueuedPostSchema, approvalDecisionSchema, APPROVAL_KINDS,
+  riskPolicySchema, addWithdrawalAddressSchema, CHAIN_LABELS,
+  exportWalletKeySchema, importWalletKeySchema,
+  createOrganizationSchema, addOrganizationMemberSchema, updateOrganizationMemberSchema, shareBotSchema,
+  createApiTokenSchema, refreshSessionSchema, analyticsQuerySchema, createWebhookSchema, updateWebhookSchema, BOT_EVENT_TYPES,
+  verifyLoginChallengeSchema, setupTwoFactorSchema, enableTwoFactorSchema,
+  disableTwoFactorSchema, regenerateRecoveryCodesSchema, stepUpSchema,
+  type ApprovalKind, type ApiTokenScope, type Bot,
   PERSONALITY_PRESETS,
 } from "@shared/schema";
 import bcrypt from "bcrypt";
-import jwt from "jsonwebtoken";
-import { encrypt, decrypt, generateWalletKeypair, isValidSolanaAddress } from "./crypto";
+import { encrypt, decrypt } from "./crypto";
+import { approvalService, ApprovalError } from "./approvals";
+import { riskService } from "./risk";
+import { addressBook, AddressBookError } from "./address-book";
+import { getChain } from "./chains";
+import { quotas, getUserPlan } from "./plans";
+import { requireBotAccess, roleAllows, getBotRole } from "./permissions";
+import { organizationService, OrganizationError } from "./organizations";
+import { walletKeys, WalletKeyError } from "./wallet-keys";
+import { sessionService, SessionError, describeSession, type SessionMeta } from "./sessions";
+import { webhookService, WebhookError, describeWebhook } from "./webhooks";
+import { activityStream } from "./activity-stream";
+import { analyticsService, resolveAnalyticsRange } from "./analytics";
+import { twoFactor, TwoFactorError, isTwoFactorEnabled, isSessionElevated, requireStepUp } from "./two-factor";
+import {
+  apiTokenService, ApiTokenError, isApiToken, tokenHasScope, tokenAllowsBot, describeApiToken,
+} from "./api-tokens";
+import { resolveCommanderId } from "./commands";
+import { buildPostPrompt, buildReplyPrompt, completeTweet, type Persona } from "./content";
+import {
+  getXOAuthConfig, createAuthorizationUrl, consumeAuthorizationState,
+  exchangeAuthorizationCode, XOAuthError,
+} from "./x-oauth";
 
 function getParamId(param: string | string[] | undefined): number {
   const val = Array.isArray(param) ? param[0] : param;
   return parseInt(val || "0", 10);
 }
 
-function getJwtSecret(): string {
-  const secret = process.env.SESSION_SECRET;
-  if (!secret) {
-    if (process.env.NODE_ENV === "production") {
-      throw new Error("SESSION_SECRET is required in production");
-    }
-    return "moltcook-dev-jwt-secret-do-not-use-in-production";
-  }
-  return secret;
-}
+const APPROVAL_SCOPES: Record<ApprovalKind, ApiTokenScope> = {
+  post: "post",
+  reply: "post",
+  trade: "trade",
+  withdrawal: "withdraw",
+};
 
-function signToken(userId: number): string {
-  return jwt.sign({ userId }, getJwtSecret(), { expiresIn: "7d" });
+function approvalScope(req: Request): ApiTokenScope | undefined {
+  return APPROVAL_SCOPES[req.params.kind as ApprovalKind];
 }
 
-function verifyToken(token: string): { userId: number } | null {
-  try {
-    return jwt.verify(token, getJwtSecret()) as { userId: number };
-  } catch {
-    return null;
-  }
+function sessionMeta(req: Request): SessionMeta {
+  return { userAgent: req.get("user-agent"), ip: req.ip };
 }
 
 async function authMiddleware(req: Request, res: Response, next: NextFunction) {
@@ -44,15 +65,41 @@ async function authMiddleware(req: Request, res: Response, next: NextFunction) {
     return res.status(401).json({ message: "Unauthorized" });
   }
   const token = authHeader.slice(7);
-  const payload = verifyToken(token);
-  if (!payload) {
+  if (isApiToken(token)) {
+    const auth = await apiTokenService.authenticate(token);
+    if (!auth) {
+      return res.status(401).json({ message: "Invalid or expired token" });
+    }
+    // Tokens can read whatever their user can, but only change state through
+    // bot routes that declare a scope in requireBotAccess.
+    const isBotRoute = String(req.route?.path || "").startsWith("/api/bots/:id");
+    if (req.method === "GET" ? !tokenHasScope(auth.apiToken, "read") : !isBotRoute) {
+      return res.status(403).json({ message: "This API token is not allowed to perform this action" });
+    }
+    (req as any).user = auth.user;
+    (req as any).apiToken = auth.apiToken;
+    return next();
+  }
+  const auth = await sessionService.authenticate(token);
+  if (!auth) {
     return res.status(401).json({ message: "Invalid or expired token" });
   }
-  const user = await storage.getUser(payload.userId);
-  if (!user) {
-    return res.status(401).json({ message: "User not found" });
+  (req as any).user = auth.user;
+  (req as any).session = auth.session;
+  next();
+}
+
+// EventSource can't set headers, so browsers connect with a ticket from
+// POST /api/activity/stream/ticket; other clients may use a bearer token.
+async function streamAuthMiddleware(req: Request, res: Response, next: NextFunction) {
+  const ticket = typeof req.query.ticket === "string" ? req.query.ticket : undefined;
+  if (!ticket) return authMiddleware(req, res, next);
+  const redeemed = await activityStream.redeemTicket(ticket);
+  if (!redeemed) {
+    return res.status(401).json({ message: "Invalid or expired ticket" });
   }
-  (req as any).user = user;
+  (req as any).user = redeemed.user;
+  (req as any).session = redeemed.session;
   next();
 }
 
@@ -76,8 +123,8 @@ export async function registerRoutes(
       }
       const passwordHash = await bcrypt.hash(password, 12);
       const user = await storage.createUser({ username, passwordHash });
-      const token = signToken(user.id);
-      res.json({ token, user: { id: user.id, username: user.username } });
+      const { token, refreshToken } = await sessionService.start(user, sessionMeta(req));
+      res.json({ token, refreshToken, user: { id: user.id, username: user.username } });
     } catch (err: any) {
       console.error("Register error:", err);
       res.status(500).json({ message: "Registration failed" });
@@ -99,17 +146,83 @@ export async function registerRoutes(
       if (!valid) {
         return res.status(401).json({ message: "Invalid username or password" });
       }
-      const token = signToken(user.id);
-      res.json({ token, user: { id: user.id, username: user.username } });
+      if (isTwoFactorEnabled(user)) {
+        return res.json({ twoFactorRequired: true, challengeToken: twoFactor.createLoginChallenge(user) });
+      }
+      const { token, refreshToken } = await sessionService.start(user, sessionMeta(req));
+      res.json({ token, refreshToken, user: { id: user.id, username: user.username } });
     } catch (err: any) {
       console.error("Login error:", err);
       res.status(500).json({ message: "Login failed" });
     }
   });
 
+  app.post("/api/auth/login/2fa", async (req: Request, res: Response) => {
+    try {
+      const parsed = verifyLoginChallengeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const user = await twoFactor.completeLoginChallenge(parsed.data.challengeToken, parsed.data.code);
+      const { token, refreshToken } = await sessionService.start(user, sessionMeta(req));
+      res.json({ token, refreshToken, user: { id: user.id, username: user.username } });
+    } catch (err: any) {
+      if (err instanceof TwoFactorError) {
+        return res.status(err.status).json({ message: err.message });
+      }
+      console.error("Login 2FA error:", err);
+      res.status(500).json({ message: "Login failed" });
+    }
+  });
+
+  app.post("/api/auth/refresh", async (req: Request, res: Response) => {
+    try {
+      const parsed = refreshSessionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const { token, refreshToken } = await sessionService.refresh(parsed.data.refreshToken, sessionMeta(req));
+      res.set("Cache-Control", "no-store");
+      res.json({ token, refreshToken });
+    } catch (err: any) {
+      if (err instanceof SessionError) {
+        return res.status(err.status).json({ message: err.message });
+      }
+      console.error("Refresh error:", err);
+      res.status(500).json({ message: "Failed to refresh session" });
+    }
+  });
+
+  app.post("/api/auth/logout", authMiddleware, async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user;
+      const session = (req as any).session;
+      await sessionService.revoke(user, session.id);
+      res.json({ success: true });
+    } catch (err: any) {
+      if (err instanceof SessionError) {
+        return res.status(err.status).json({ message: err.message });
+      }
+      console.error("Logout error:", err);
+      res.status(500).json({ message: "Failed to log out" });
+    }
+  });
+
   app.get("/api/auth/me", authMiddleware, async (req: Request, res: Response) => {
     const user = (req as any).user;
-    res.json({ user: { id: user.id, username: user.username } });
+    res.json({
+      user: { id: user.id, username: user.username, plan: getUserPlan(user), twoFactorEnabled: isTwoFactorEnabled(user) },
+    });
+  });
+
+  app.get("/api/auth/plan", authMiddleware, async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user;
+      res.json(await quotas.getUsage(user));
+    } catch (err: any) {
+      console.error("Get plan error:", err);
+      res.status(500).json({ message: "Failed to fetch plan" });
+    }
   });
 
   app.put("/api/auth/password", authMiddleware, async (req: Request, res: Response) => {
@@ -126,14 +239,16 @@ export async function registerRoutes(
       }
       const newHash = await bcrypt.hash(newPassword, 12);
       await storage.updateUserPassword(user.id, newHash);
-      res.json({ success: true });
+      const session = (req as any).session;
+      const revokedSessions = await sessionService.revokeAll(user, "password_changed", session?.id);
+      res.json({ success: true, revokedSessions });
     } catch (err: any) {
       console.error("Password change error:", err);
       res.status(500).json({ message: "Failed to change password" });
     }
   });
 
-  app.delete("/api/auth/account", authMiddleware, async (req: Request, res: Response) => {
+  app.delete("/api/auth/account", authMiddleware, requireStepUp, async (req: Request, res: Response) => {
     try {
       const user = (req as any).user;
       const { password } = req.body;
@@ -152,6 +267,439 @@ export async function registerRoutes(
     }
   });
 
+  // ── Two-Factor Auth ───────────────────────────────────────
+
+  app.get("/api/auth/2fa", authMiddleware, async (req: Request, res: Response) => {
+    const user = (req as any).user;
+    res.json(twoFactor.status(user));
+  });
+
+  app.post("/api/auth/2fa/setup", authMiddleware, async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user;
+      const parsed = setupTwoFactorSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const { secret, otpauthUrl } = await twoFactor.setup(user, parsed.data.password);
+      res.set("Cache-Control", "no-store");
+      res.json({ secret, otpauthUrl });
+    } catch (err: any) {
+      if (err instanceof TwoFactorError) {
+        return res.status(err.status).json({ message: err.message });
+      }
+      console.error("2FA setup error:", err);
+      res.status(500).json({ message: "Failed to start two-factor setup" });
+    }
+  });
+
+  app.post("/api/auth/2fa/enable", authMiddleware, async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user;
+      const parsed = enableTwoFactorSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const recoveryCodes = await twoFactor.enable(user, parsed.data.code);
+      res.set("Cache-Control", "no-store");
+      res.json({ success: true, recoveryCodes });
+    } catch (err: any) {
+      if (err instanceof TwoFactorError) {
+        return res.status(err.status).json({ message: err.message });
+      }
+      console.error("2FA enable error:", err);
+      res.status(500).json({ message: "Failed to enable two-factor authentication" });
+    }
+  });
+
+  app.post("/api/auth/2fa/disable", authMiddleware, async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user;
+      const parsed = disableTwoFactorSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      await twoFactor.disable(user, parsed.data.password, parsed.data.code);
+      res.json({ success: true });
+    } catch (err: any) {
+      if (err instanceof TwoFactorError) {
+        return res.status(err.status).json({ message: err.message });
+      }
+      console.error("2FA disable error:", err);
+      res.status(500).json({ message: "Failed to disable two-factor authentication" });
+    }
+  });
+
+  app.post("/api/auth/2fa/recovery-codes", authMiddleware, async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user;
+      const parsed = regenerateRecoveryCodesSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const recoveryCodes = await twoFactor.regenerateRecoveryCodes(user, parsed.data.code);
+      res.set("Cache-Control", "no-store");
+      res.json({ recoveryCodes });
+    } catch (err: any) {
+      if (err instanceof TwoFactorError) {
+        return res.status(err.status).json({ message: err.message });
+      }
+      console.error("Recovery codes error:", err);
+      res.status(500).json({ message: "Failed to regenerate recovery codes" });
+    }
+  });
+
+  app.post("/api/auth/step-up", authMiddleware, async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user;
+      const parsed = stepUpSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const elevatedUntil = await twoFactor.stepUp(user, (req as any).session, parsed.data);
+      res.json({ success: true, elevatedUntil });
+    } catch (err: any) {
+      if (err instanceof TwoFactorError) {
+        return res.status(err.status).json({ message: err.message });
+      }
+      console.error("Step-up error:", err);
+      res.status(500).json({ message: "Failed to confirm identity" });
+    }
+  });
+
+  // ── Sessions ──────────────────────────────────────────────
+
+  app.get("/api/auth/sessions", authMiddleware, async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user;
+      const current = (req as any).session;
+      const sessions = await storage.getActiveSessionsByUser(user.id);
+      res.json({ sessions: sessions.map(s => describeSession(s, current?.id)) });
+    } catch (err: any) {
+      console.error("Get sessions error:", err);
+      res.status(500).json({ message: "Failed to fetch sessions" });
+    }
+  });
+
+  app.delete("/api/auth/sessions/:sessionId", authMiddleware, async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user;
+      const sessionId = Array.isArray(req.params.sessionId) ? req.params.sessionId[0] : req.params.sessionId;
+      await sessionService.revoke(user, sessionId, "revoked");
+      res.json({ success: true });
+    } catch (err: any) {
+      if (err instanceof SessionError) {
+        return res.status(err.status).json({ message: err.message });
+      }
+      console.error("Revoke session error:", err);
+      res.status(500).json({ message: "Failed to revoke session" });
+    }
+  });
+
+  // Logout everywhere, including this device.
+  app.delete("/api/auth/sessions", authMiddleware, async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user;
+      const revoked = await sessionService.revokeAll(user, "logout_everywhere");
+      res.json({ success: true, revoked });
+    } catch (err: any) {
+      console.error("Revoke sessions error:", err);
+      res.status(500).json({ message: "Failed to revoke sessions" });
+    }
+  });
+
+  // ── API Tokens ────────────────────────────────────────────
+
+  app.get("/api/auth/tokens", authMiddleware, async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user;
+      const tokens = await storage.getApiTokensByUser(user.id);
+      res.json({ tokens: tokens.map(describeApiToken) });
+    } catch (err: any) {
+      console.error("Get API tokens error:", err);
+      res.status(500).json({ message: "Failed to fetch API tokens" });
+    }
+  });
+
+  app.post("/api/auth/tokens", authMiddleware, async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user;
+      const parsed = createApiTokenSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      // Withdraw-scoped tokens skip step-up on every use, so creating one needs it.
+      if (parsed.data.scopes.includes("withdraw") && !isSessionElevated((req as any).session)) {
+        return res.status(403).json({ message: "Please confirm your identity to continue", stepUpRequired: true });
+      }
+      const { token, record } = await apiTokenService.create(user, parsed.data);
+      res.set("Cache-Control", "no-store");
+      res.json({ token, apiToken: describeApiToken(record) });
+    } catch (err: any) {
+      if (err instanceof ApiTokenError) {
+        return res.status(err.status).json({ message: err.message });
+      }
+      console.error("Create API token error:", err);
+      res.status(500).json({ message: "Failed to create API token" });
+    }
+  });
+
+  app.delete("/api/auth/tokens/:tokenId", authMiddleware, async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user;
+      const tokenId = getParamId(req.params.tokenId);
+      if (isNaN(tokenId)) return res.status(400).json({ message: "Invalid token ID" });
+      await apiTokenService.revoke(user, tokenId);
+      res.json({ success: true });
+    } catch (err: any) {
+      if (err instanceof ApiTokenError) {
+        return res.status(err.status).json({ message: err.message });
+      }
+      console.error("Revoke API token error:", err);
+      res.status(500).json({ message: "Failed to revoke API token" });
+    }
+  });
+
+  // ── Webhooks ──────────────────────────────────────────────
+
+  app.get("/api/webhooks", authMiddleware, async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user;
+      const endpoints = await storage.getWebhookEndpointsByUser(user.id);
+      res.json({ webhooks: endpoints.map(describeWebhook), eventTypes: BOT_EVENT_TYPES });
+    } catch (err: any) {
+      console.error("Get webhooks error:", err);
+      res.status(500).json({ message: "Failed to fetch webhooks" });
+    }
+  });
+
+  app.post("/api/webhooks", authMiddleware, async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user;
+      const parsed = createWebhookSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const { endpoint, secret } = await webhookService.create(user, parsed.data);
+      res.set("Cache-Control", "no-store");
+      res.json({ webhook: describeWebhook(endpoint), secret });
+    } catch (err: any) {
+      if (err instanceof WebhookError) {
+        return res.status(err.status).json({ message: err.message });
+      }
+      console.error("Create webhook error:", err);
+      res.status(500).json({ message: "Failed to create webhook" });
+    }
+  });
+
+  app.put("/api/webhooks/:webhookId", authMiddleware, async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user;
+      const webhookId = getParamId(req.params.webhookId);
+      if (isNaN(webhookId)) return res.status(400).json({ message: "Invalid webhook ID" });
+      const parsed = updateWebhookSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const endpoint = await webhookService.update(user, webhookId, parsed.data);
+      res.json({ webhook: describeWebhook(endpoint) });
+    } catch (err: any) {
+      if (err instanceof WebhookError) {
+        return res.status(err.status).json({ message: err.message });
+      }
+      console.error("Update webhook error:", err);
+      res.status(500).json({ message: "Failed to update webhook" });
+    }
+  });
+
+  app.delete("/api/webhooks/:webhookId", authMiddleware, async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user;
+      const webhookId = getParamId(req.params.webhookId);
+      if (isNaN(webhookId)) return res.status(400).json({ message: "Invalid webhook ID" });
+      await webhookService.remove(user, webhookId);
+      res.json({ success: true });
+    } catch (err: any) {
+      if (err instanceof WebhookError) {
+        return res.status(err.status).json({ message: err.message });
+      }
+      console.error("Delete webhook error:", err);
+      res.status(500).json({ message: "Failed to delete webhook" });
+    }
+  });
+
+  app.post("/api/webhooks/:webhookId/rotate-secret", authMiddleware, async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user;
+      const webhookId = getParamId(req.params.webhookId);
+      if (isNaN(webhookId)) return res.status(400).json({ message: "Invalid webhook ID" });
+      const secret = await webhookService.rotateSecret(user, webhookId);
+      res.set("Cache-Control", "no-store");
+      res.json({ secret });
+    } catch (err: any) {
+      if (err instanceof WebhookError) {
+        return res.status(err.status).json({ message: err.message });
+      }
+      console.error("Rotate webhook secret error:", err);
+      res.status(500).json({ message: "Failed to rotate webhook secret" });
+    }
+  });
+
+  app.get("/api/webhooks/:webhookId/deliveries", authMiddleware, async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user;
+      const webhookId = getParamId(req.params.webhookId);
+      if (isNaN(webhookId)) return res.status(400).json({ message: "Invalid webhook ID" });
+      await webhookService.requireOwned(user, webhookId);
+      const deliveries = await storage.getWebhookDeliveries(webhookId);
+      res.json({ deliveries });
+    } catch (err: any) {
+      if (err instanceof WebhookError) {
+        return res.status(err.status).json({ message: err.message });
+      }
+      console.error("Get webhook deliveries error:", err);
+      res.status(500).json({ message: "Failed to fetch deliveries" });
+    }
+  });
+
+  app.post("/api/webhooks/:webhookId/test", authMiddleware, async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user;
+      const webhookId = getParamId(req.params.webhookId);
+      if (isNaN(webhookId)) return res.status(400).json({ message: "Invalid webhook ID" });
+      const delivery = await webhookService.testFire(user, webhookId);
+      res.json({ delivery });
+    } catch (err: any) {
+      if (err instanceof WebhookError) {
+        return res.status(err.status).json({ message: err.message });
+      }
+      console.error("Test webhook error:", err);
+      res.status(500).json({ message: "Failed to send test delivery" });
+    }
+  });
+
+  // ── Organizations ─────────────────────────────────────────
+
+  app.get("/api/orgs", authMiddleware, async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user;
+      const organizations = await storage.getOrganizationsByUser(user.id);
+      res.json({ organizations });
+    } catch (err: any) {
+      console.error("Get organizations error:", err);
+      res.status(500).json({ message: "Failed to fetch organizations" });
+    }
+  });
+
+  app.post("/api/orgs", authMiddleware, async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user;
+      const parsed = createOrganizationSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const organization = await organizationService.create(user, parsed.data.name);
+      res.json({ organization: { ...organization, role: "owner" } });
+    } catch (err: any) {
+      console.error("Create organization error:", err);
+      res.status(500).json({ message: "Failed to create organization" });
+    }
+  });
+
+  app.get("/api/orgs/:orgId/members", authMiddleware, async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user;
+      const orgId = getParamId(req.params.orgId);
+      if (isNaN(orgId)) return res.status(400).json({ message: "Invalid organization ID" });
+      await organizationService.requireRole(orgId, user.id);
+      const members = await storage.getOrganizationMembers(orgId);
+      res.json({ members });
+    } catch (err: any) {
+      if (err instanceof OrganizationError) {
+        return res.status(err.status).json({ message: err.message });
+      }
+      console.error("Get members error:", err);
+      res.status(500).json({ message: "Failed to fetch members" });
+    }
+  });
+
+  app.post("/api/orgs/:orgId/members", authMiddleware, async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user;
+      const orgId = getParamId(req.params.orgId);
+      if (isNaN(orgId)) return res.status(400).json({ message: "Invalid organization ID" });
+      const parsed = addOrganizationMemberSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const member = await organizationService.addMember(user, orgId, parsed.data.username, parsed.data.role);
+      res.json({ member });
+    } catch (err: any) {
+      if (err instanceof OrganizationError) {
+        return res.status(err.status).json({ message: err.message });
+      }
+      console.error("Add member error:", err);
+      res.status(500).json({ message: "Failed to add member" });
+    }
+  });
+
+  app.put("/api/orgs/:orgId/members/:userId", authMiddleware, async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user;
+      const orgId = getParamId(req.params.orgId);
+      const memberId = getParamId(req.params.userId);
+      if (isNaN(orgId) || isNaN(memberId)) return res.status(400).json({ message: "Invalid ID" });
+      const parsed = updateOrganizationMemberSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const member = await organizationService.changeRole(user, orgId, memberId, parsed.data.role);
+      res.json({ member });
+    } catch (err: any) {
+      if (err instanceof OrganizationError) {
+        return res.status(err.status).json({ message: err.message });
+      }
+      console.error("Update member error:", err);
+      res.status(500).json({ message: "Failed to update member" });
+    }
+  });
+
+  app.delete("/api/orgs/:orgId/members/:userId", authMiddleware, async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user;
+      const orgId = getParamId(req.params.orgId);
+      const memberId = getParamId(req.params.userId);
+      if (isNaN(orgId) || isNaN(memberId)) return res.status(400).json({ message: "Invalid ID" });
+      await organizationService.removeMember(user, orgId, memberId);
+      res.json({ success: true });
+    } catch (err: any) {
+      if (err instanceof OrganizationError) {
+        return res.status(err.status).json({ message: err.message });
+      }
+      console.error("Remove member error:", err);
+      res.status(500).json({ message: "Failed to remove member" });
+    }
+  });
+
+  app.put("/api/bots/:id/organization", authMiddleware, requireBotAccess("manage"), async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user;
+      const bot = (req as any).bot as Bot;
+      const parsed = shareBotSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const updated = await organizationService.shareBot(user, bot, parsed.data.organizationId);
+      res.json({ bot: updated });
+    } catch (err: any) {
+      if (err instanceof OrganizationError) {
+        return res.status(err.status).json({ message: err.message });
+      }
+      console.error("Share bot error:", err);
+      res.status(500).json({ message: "Failed to update agent organization" });
+    }
+  });
+
   // ── Presets ───────────────────────────────────────────────
 
   app.get("/api/presets", (_req: Request, res: Response) => {
@@ -168,9 +716,13 @@ export async function registerRoutes(
         return res.status(400).json({ message: parsed.error.errors[0].message });
       }
 
-      const existingBots = await storage.getBotsByUser(user.id);
-      if (existingBots.length >= 1) {
-        return res.status(403).json({ message: "You can only create one agent per account" });
+      const quota = await quotas.checkAgentQuota(user);
+      if (!quota.ok) {
+        return res.status(403).json({ message: quota.reason });
+      }
+      const interval = quotas.checkPostingInterval(getUserPlan(user), parsed.data.postingIntervalMinutes);
+      if (!interval.ok) {
+        return res.status(403).json({ message: interval.reason });
       }
 
       const bot = await storage.createBot({
@@ -184,10 +736,12 @@ export async function registerRoutes(
         transactionCommanderX: parsed.data.transactionCommanderX,
       });
 
-      const keypair = generateWalletKeypair();
+      const chain = getChain(parsed.data.chain);
+      const keypair = chain.generateWallet();
       const encryptedKey = encrypt(keypair.privateKey);
       const wallet = await storage.createBotWallet({
         botId: bot.id,
+        chain: chain.id,
         publicAddress: keypair.publicKey,
         encryptedPrivateKey: encryptedKey,
       });
@@ -196,7 +750,7 @@ export async function registerRoutes(
         userId: user.id,
         botId: bot.id,
         action: "bot_created",
-        details: { botName: bot.botName },
+        details: { botName: bot.botName, chain: chain.id },
         source: "web",
       });
 
@@ -204,6 +758,7 @@ export async function registerRoutes(
         bot: {
           ...bot,
           walletAddress: wallet.publicAddress,
+          walletChain: chain.id,
         },
       });
     } catch (err: any) {
@@ -215,25 +770,18 @@ export async function registerRoutes(
   app.get("/api/bots", authMiddleware, async (req: Request, res: Response) => {
     try {
       const user = (req as any).user;
+      const apiToken = (req as any).apiToken;
       const botsWithDetails = await storage.getBotsByUserWithDetails(user.id);
-      res.json({ bots: botsWithDetails });
+      res.json({ bots: apiToken ? botsWithDetails.filter(b => tokenAllowsBot(apiToken, b.id)) : botsWithDetails });
     } catch (err: any) {
       console.error("Get bots error:", err);
       res.status(500).json({ message: "Failed to fetch agents" });
     }
   });
 
-  app.get("/api/bots/:id", authMiddleware, async (req: Request, res: Response) => {
+  app.get("/api/bots/:id", authMiddleware, requireBotAccess("view"), async (req: Request, res: Response) => {
     try {
-      const user = (req as any).user;
-      const botId = getParamId(req.params.id);
-      if (isNaN(botId)) {
-        return res.status(400).json({ message: "Invalid bot ID" });
-      }
-      const bot = await storage.getBot(botId);
-      if (!bot || bot.userId !== user.id) {
-        return res.status(404).json({ message: "Bot not found" });
-      }
+      const bot = (req as any).bot as Bot;
       const wallet = await storage.getBotWallet(bot.id);
       const xAccount = await storage.getBotXAccount(bot.id);
       res.json({
@@ -243,6 +791,7 @@ export async function registerRoutes(
           xUsername: xAccount?.xUsername || null,
           xProfileImageUrl: xAccount?.xProfileImageUrl || null,
           solBalance: "0.000000000",
+          role: (req as any).botRole,
         },
       });
     } catch (err: any) {
@@ -251,24 +800,40 @@ export async function registerRoutes(
     }
   });
 
-  app.put("/api/bots/:id", authMiddleware, async (req: Request, res: Response) => {
+  app.put("/api/bots/:id", authMiddleware, requireBotAccess("operate"), async (req: Request, res: Response) => {
     try {
       const user = (req as any).user;
-      const botId = getParamId(req.params.id);
-      if (isNaN(botId)) {
-        return res.status(400).json({ message: "Invalid bot ID" });
-      }
-      const bot = await storage.getBot(botId);
-      if (!bot || bot.userId !== user.id) {
-        return res.status(404).json({ message: "Bot not found" });
-      }
+      const bot = (req as any).bot as Bot;
+      const botId = bot.id;
 
       const parsed = updateBotSchema.safeParse(req.body);
       if (!parsed.success) {
         return res.status(400).json({ message: parsed.error.errors[0].message });
       }
+      // Approval mode is a safety control over operators, and the commander can
+      // withdraw over X, so only owners may change either. Operators pause and
+      // resume through their own routes, which check the X connection.
+      const ownerOnly = (["approvalMode", "approvalExpiryMinutes", "transactionCommanderX", "status"] as const)
+        .filter(field => parsed.data[field] !== undefined);
+      if (ownerOnly.length > 0 && !roleAllows((req as any).botRole, "manage")) {
+        return res.status(403).json({ message: `Only owners can change ${ownerOnly.join(", ")}` });
+      }
+      const interval = quotas.checkPostingInterval(await quotas.getOwnerPlan(botId), parsed.data.postingIntervalMinutes);
+      if (!interval.ok) {
+        return res.status(403).json({ message: interval.reason });
+      }
+
+      const updates: Partial<Bot> = { ...parsed.data };
+      const commanderX = parsed.data.transactionCommanderX;
+      if (commanderX !== undefined && commanderX !== bot.transactionCommanderX) {
+        // Without a connected X account the id is resolved on connect instead.
+        updates.transactionCommanderXId = await resolveCommanderId(botId, commanderX);
+        if (!updates.transactionCommanderXId && await storage.getBotXAccount(botId)) {
+          return res.status(400).json({ message: `𝕏 user ${commanderX} not found` });
+        }
+      }
 
-      const updated = await storage.updateBot(botId, parsed.data as any);
+      const updated = await storage.updateBot(botId, updates);
 
       await storage.createAuditLog({
         userId: user.id,
@@ -285,17 +850,11 @@ export async function registerRoutes(
     }
   });
 
-  app.delete("/api/bots/:id", authMiddleware, async (req: Request, res: Response) => {
+  app.delete("/api/bots/:id", authMiddleware, requireBotAccess("manage"), requireStepUp, async (req: Request, res: Response) => {
     try {
       const user = (req as any).user;
-      const botId = getParamId(req.params.id);
-      if (isNaN(botId)) {
-        return res.status(400).json({ message: "Invalid bot ID" });
-      }
-      const bot = await storage.getBot(botId);
-      if (!bot || bot.userId !== user.id) {
-        return res.status(404).json({ message: "Bot not found" });
-      }
+      const bot = (req as any).bot as Bot;
+      const botId = bot.id;
       await storage.deleteBot(botId);
       await storage.createAuditLog({
         userId: user.id,
@@ -313,15 +872,11 @@ export async function registerRoutes(
 
   // ── Bot Status ────────────────────────────────────────────
 
-  app.post("/api/bots/:id/pause", authMiddleware, async (req: Request, res: Response) => {
+  app.post("/api/bots/:id/pause", authMiddleware, requireBotAccess("operate", "post"), async (req: Request, res: Response) => {
     try {
       const user = (req as any).user;
-      const botId = getParamId(req.params.id);
-      if (isNaN(botId)) return res.status(400).json({ message: "Invalid bot ID" });
-      const bot = await storage.getBot(botId);
-      if (!bot || bot.userId !== user.id) {
-        return res.status(404).json({ message: "Bot not found" });
-      }
+      const bot = (req as any).bot as Bot;
+      const botId = bot.id;
       if (bot.status === "paused") {
         return res.status(400).json({ message: "Bot is already paused" });
       }
@@ -336,15 +891,11 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/bots/:id/resume", authMiddleware, async (req: Request, res: Response) => {
+  app.post("/api/bots/:id/resume", authMiddleware, requireBotAccess("operate", "post"), async (req: Request, res: Response) => {
     try {
       const user = (req as any).user;
-      const botId = getParamId(req.params.id);
-      if (isNaN(botId)) return res.status(400).json({ message: "Invalid bot ID" });
-      const bot = await storage.getBot(botId);
-      if (!bot || bot.userId !== user.id) {
-        return res.status(404).json({ message: "Bot not found" });
-      }
+      const bot = (req as any).bot as Bot;
+      const botId = bot.id;
       if (bot.status === "active") {
         return res.status(400).json({ message: "Bot is already active" });
       }
@@ -365,15 +916,9 @@ export async function registerRoutes(
 
   // ── Wallet ────────────────────────────────────────────────
 
-  app.get("/api/bots/:id/wallet", authMiddleware, async (req: Request, res: Response) => {
+  app.get("/api/bots/:id/wallet", authMiddleware, requireBotAccess("view"), async (req: Request, res: Response) => {
     try {
-      const user = (req as any).user;
-      const botId = getParamId(req.params.id);
-      if (isNaN(botId)) return res.status(400).json({ message: "Invalid bot ID" });
-      const bot = await storage.getBot(botId);
-      if (!bot || bot.userId !== user.id) {
-        return res.status(404).json({ message: "Bot not found" });
-      }
+      const botId = ((req as any).bot as Bot).id;
       const wallet = await storage.getBotWallet(botId);
       res.json({
         wallet: {
@@ -382,25 +927,72 @@ export async function registerRoutes(
         },
       });
     } catch (err: any) {
-      console.error("Get wallet error:", err);
-      res.status(500).json({ message: "Failed to fetch wallet" });
+      console.error("Get wallet error:", err);
+      res.status(500).json({ message: "Failed to fetch wallet" });
+    }
+  });
+
+  app.post("/api/bots/:id/wallet/export", authMiddleware, requireBotAccess("manage"), requireStepUp, async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user;
+      const bot = (req as any).bot as Bot;
+      const parsed = exportWalletKeySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+
+      const exported = await walletKeys.exportKey(user, bot, parsed.data.password, req.ip);
+      res.set("Cache-Control", "no-store");
+      res.json({ wallet: exported });
+    } catch (err: any) {
+      if (err instanceof WalletKeyError) {
+        return res.status(err.status).json({ message: err.message });
+      }
+      console.error("Export wallet key error:", err);
+      res.status(500).json({ message: "Failed to export wallet key" });
     }
   });
 
-  app.get("/api/bots/:id/wallet/balances", authMiddleware, async (req: Request, res: Response) => {
+  app.post("/api/bots/:id/wallet/import", authMiddleware, requireBotAccess("manage"), requireStepUp, async (req: Request, res: Response) => {
     try {
       const user = (req as any).user;
-      const botId = getParamId(req.params.id);
-      if (isNaN(botId)) return res.status(400).json({ message: "Invalid bot ID" });
-      const bot = await storage.getBot(botId);
-      if (!bot || bot.userId !== user.id) {
-        return res.status(404).json({ message: "Bot not found" });
+      const bot = (req as any).bot as Bot;
+      const parsed = importWalletKeySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+
+      const wallet = await walletKeys.importKey(user, bot, parsed.data.password, parsed.data.privateKey, parsed.data.chain, req.ip);
+      res.json({ wallet: { publicAddress: wallet.publicAddress, chain: wallet.chain } });
+    } catch (err: any) {
+      if (err instanceof WalletKeyError) {
+        return res.status(err.status).json({ message: err.message });
       }
+      console.error("Import wallet key error:", err);
+      res.status(500).json({ message: "Failed to import wallet key" });
+    }
+  });
+
+  app.get("/api/bots/:id/wallet/balances", authMiddleware, requireBotAccess("view"), async (req: Request, res: Response) => {
+    try {
+      const botId = ((req as any).bot as Bot).id;
       const wallet = await storage.getBotWallet(botId);
       if (!wallet) {
         return res.status(404).json({ message: "Wallet not found" });
       }
 
+      const chain = getChain(wallet.chain);
+      if (chain.id !== "solana") {
+        const nativeBalance = await chain.getNativeBalance(wallet.publicAddress);
+        return res.json({
+          chain: chain.id,
+          nativeBalance: nativeBalance.toString(),
+          nativeSymbol: chain.nativeSymbol,
+          tokens: [],
+          lastUpdated: new Date().toISOString(),
+        });
+      }
+
       const heliusApiKey = process.env.HELIUS_API_KEY;
       if (!heliusApiKey) {
         return res.json({
@@ -499,44 +1091,112 @@ export async function registerRoutes(
     }
   });
 
-  // ── Withdraw ──────────────────────────────────────────────
+  // ── Withdrawal Address Book ───────────────────────────────
 
-  app.post("/api/bots/:id/wallet/withdraw", authMiddleware, async (req: Request, res: Response) => {
+  app.get("/api/wallet/addresses", authMiddleware, async (req: Request, res: Response) => {
     try {
       const user = (req as any).user;
-      const botId = getParamId(req.params.id);
-      if (isNaN(botId)) return res.status(400).json({ message: "Invalid bot ID" });
-      const bot = await storage.getBot(botId);
-      if (!bot || bot.userId !== user.id) {
-        return res.status(404).json({ message: "Bot not found" });
-      }
+      const addresses = await storage.getWithdrawalAddresses(user.id);
+      const now = Date.now();
+      res.json({
+        addresses: addresses.map(a => ({ ...a, active: a.activatesAt.getTime() <= now })),
+      });
+    } catch (err: any) {
+      console.error("Get addresses error:", err);
+      res.status(500).json({ message: "Failed to fetch addresses" });
+    }
+  });
 
-      const parsed = withdrawSchema.safeParse(req.body);
+  app.post("/api/wallet/addresses", authMiddleware, async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user;
+      const parsed = addWithdrawalAddressSchema.safeParse(req.body);
       if (!parsed.success) {
         return res.status(400).json({ message: parsed.error.errors[0].message });
       }
+      const chain = getChain(parsed.data.chain);
+      if (!chain.isValidAddress(parsed.data.address)) {
+        return res.status(400).json({ message: `Invalid ${CHAIN_LABELS[chain.id]} address` });
+      }
+      const address = await addressBook.add(user.id, parsed.data.label, chain.normalizeAddress(parsed.data.address), chain.id);
+      res.json({ address: { ...address, active: false } });
+    } catch (err: any) {
+      if (err instanceof AddressBookError) {
+        return res.status(err.status).json({ message: err.message });
+      }
+      console.error("Add address error:", err);
+      res.status(500).json({ message: "Failed to add address" });
+    }
+  });
 
-      const { destinationAddress, amountSol } = parsed.data;
-
-      if (!isValidSolanaAddress(destinationAddress)) {
-        return res.status(400).json({ message: "Invalid Solana destination address" });
+  app.delete("/api/wallet/addresses/:addressId", authMiddleware, async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user;
+      const addressId = getParamId(req.params.addressId);
+      if (isNaN(addressId)) return res.status(400).json({ message: "Invalid address ID" });
+      await addressBook.remove(user.id, addressId);
+      res.json({ success: true });
+    } catch (err: any) {
+      if (err instanceof AddressBookError) {
+        return res.status(err.status).json({ message: err.message });
       }
+      console.error("Remove address error:", err);
+      res.status(500).json({ message: "Failed to remove address" });
+    }
+  });
+
+  // ── Withdraw ──────────────────────────────────────────────
+
+  app.post("/api/bots/:id/wallet/withdraw", authMiddleware, requireBotAccess("manage", "withdraw"), requireStepUp, async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user;
+      const bot = (req as any).bot as Bot;
+      const botId = bot.id;
 
       const wallet = await storage.getBotWallet(botId);
       if (!wallet) {
         return res.status(404).json({ message: "Wallet not found" });
       }
+      const chain = getChain(wallet.chain);
 
-      const withdrawal = await storage.createWithdrawal({
-        botId,
-        destinationAddress,
-        amountSol: amountSol.toString(),
-        triggeredBy: "dashboard",
-      });
+      const parsed = withdrawSchema.safeParse({ chain: chain.id, ...req.body });
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      if (parsed.data.chain !== chain.id) {
+        return res.status(400).json({ message: `This agent's wallet is on ${CHAIN_LABELS[chain.id]}` });
+      }
+
+      const { amountSol } = parsed.data;
+      if (!chain.isValidAddress(parsed.data.destinationAddress)) {
+        return res.status(400).json({ message: `Invalid ${CHAIN_LABELS[chain.id]} destination address` });
+      }
+      const destinationAddress = chain.normalizeAddress(parsed.data.destinationAddress);
+      const tokenAddress = parsed.data.tokenAddress ? chain.normalizeAddress(parsed.data.tokenAddress) : null;
+
+      const destination = await addressBook.checkDestination(bot.userId, botId, destinationAddress, { userId: user.id, source: "web" }, chain.id);
+      if (!destination.ok) {
+        return res.status(403).json({ message: destination.reason });
+      }
+
+      const created = await riskService.guardWithdrawal(botId, { amountSol, tokenAddress }, { userId: user.id, source: "web" }, locked =>
+        locked.createWithdrawal({
+          botId,
+          chain: chain.id,
+          destinationAddress,
+          tokenAddress,
+          amountSol: amountSol.toString(),
+          triggeredBy: "dashboard",
+        }),
+      );
+      if (!created.ok) {
+        return res.status(403).json({ message: created.reason });
+      }
+      const withdrawal = created.value;
 
       await storage.createAuditLog({
         userId: user.id, botId, action: "withdrawal_requested",
-        details: { amount: amountSol, destination: destinationAddress, withdrawalId: withdrawal.id },
+        details: { amount: amountSol, chain: chain.id, destination: destinationAddress, tokenAddress, withdrawalId: withdrawal.id },
         source: "web",
       });
 
@@ -547,34 +1207,116 @@ export async function registerRoutes(
     }
   });
 
-  // ── Trading ───────────────────────────────────────────────
+  // ── Risk Limits ───────────────────────────────────────────
+
+  app.get("/api/bots/:id/risk", authMiddleware, requireBotAccess("view"), async (req: Request, res: Response) => {
+    try {
+      const botId = ((req as any).bot as Bot).id;
+      const limits = await riskService.getLimits(botId);
+      res.json({ limits });
+    } catch (err: any) {
+      console.error("Get risk limits error:", err);
+      res.status(500).json({ message: "Failed to fetch risk limits" });
+    }
+  });
 
-  app.post("/api/bots/:id/trade", authMiddleware, async (req: Request, res: Response) => {
+  app.put("/api/bots/:id/risk", authMiddleware, requireBotAccess("manage"), async (req: Request, res: Response) => {
     try {
       const user = (req as any).user;
-      const botId = getParamId(req.params.id);
-      if (isNaN(botId)) return res.status(400).json({ message: "Invalid bot ID" });
-      const bot = await storage.getBot(botId);
-      if (!bot || bot.userId !== user.id) {
-        return res.status(404).json({ message: "Bot not found" });
+      const botId = ((req as any).bot as Bot).id;
+
+      const wallet = await storage.getBotWallet(botId);
+      const chain = getChain(wallet?.chain);
+      const parsed = riskPolicySchema.safeParse({ chain: chain.id, ...req.body });
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      if (parsed.data.chain !== chain.id) {
+        return res.status(400).json({ message: `This agent's wallet is on ${CHAIN_LABELS[chain.id]}` });
+      }
+
+      const tokens = [
+        ...(parsed.data.allowedMints ?? []),
+        ...(parsed.data.deniedMints ?? []),
+        ...Object.keys(parsed.data.tokenWithdrawLimits ?? {}),
+      ];
+      if (tokens.some(token => !chain.isValidAddress(token))) {
+        return res.status(400).json({ message: `Invalid ${CHAIN_LABELS[chain.id]} token address` });
+      }
+
+      // Amounts set for a previous wallet's chain don't carry over.
+      const current = await riskService.getLimits(botId);
+      const base = current.chain === chain.id ? current : riskService.defaultLimits(chain.id);
+      const limits = { ...base, ...parsed.data, chain: chain.id };
+      if (parsed.data.allowedMints) limits.allowedMints = parsed.data.allowedMints.map(chain.normalizeAddress);
+      if (parsed.data.deniedMints) limits.deniedMints = parsed.data.deniedMints.map(chain.normalizeAddress);
+      if (parsed.data.tokenWithdrawLimits) {
+        limits.tokenWithdrawLimits = Object.fromEntries(
+          Object.entries(parsed.data.tokenWithdrawLimits).map(([token, cap]) => [chain.normalizeAddress(token), cap]),
+        );
       }
+      await storage.upsertRiskPolicy(botId, {
+        chain: limits.chain,
+        maxTradeSol: limits.maxTradeSol.toString(),
+        dailySpendSol: limits.dailySpendSol.toString(),
+        weeklySpendSol: limits.weeklySpendSol.toString(),
+        maxWithdrawSolPerDay: limits.maxWithdrawSolPerDay.toString(),
+        allowedMints: limits.allowedMints,
+        deniedMints: limits.deniedMints,
+        tokenWithdrawLimits: limits.tokenWithdrawLimits,
+      });
+
+      await storage.createAuditLog({
+        userId: user.id, botId, action: "risk_policy_updated",
+        details: parsed.data,
+        source: "web",
+      });
+
+      res.json({ limits });
+    } catch (err: any) {
+      console.error("Update risk limits error:", err);
+      res.status(500).json({ message: "Failed to update risk limits" });
+    }
+  });
+
+  // ── Trading ───────────────────────────────────────────────
+
+  app.post("/api/bots/:id/trade", authMiddleware, requireBotAccess("operate", "trade"), async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user;
+      const botId = ((req as any).bot as Bot).id;
 
       const parsed = tradeSchema.safeParse(req.body);
       if (!parsed.success) {
         return res.status(400).json({ message: parsed.error.errors[0].message });
       }
 
+      const wallet = await storage.getBotWallet(botId);
+      const chain = getChain(wallet?.chain);
+      if (parsed.data.chain !== chain.id) {
+        return res.status(400).json({ message: `This agent's wallet is on ${CHAIN_LABELS[chain.id]}` });
+      }
+      if (chain.id !== "solana") {
+        return res.status(400).json({ message: `Trading is not supported on ${CHAIN_LABELS[chain.id]} yet` });
+      }
+
       const { action, tokenMint, amountSol, amountTokens, tokenSymbol } = parsed.data;
 
-      const trade = await storage.createTrade({
-        botId,
-        tradeType: action,
-        tokenMint,
-        tokenSymbol: tokenSymbol || null,
-        amountSol: amountSol?.toString(),
-        amountTokens: amountTokens?.toString(),
-        triggeredBy: "dashboard",
-      });
+      const created = await riskService.guardTrade(botId, { tradeType: action, tokenMint, amountSol }, { userId: user.id, source: "web" }, locked =>
+        locked.createTrade({
+          botId,
+          tradeType: action,
+          tokenMint,
+          tokenSymbol: tokenSymbol || null,
+          amountSol: amountSol?.toString(),
+          amountTokens: amountTokens?.toString(),
+          triggeredBy: "dashboard",
+        }),
+      );
+      if (!created.ok) {
+        return res.status(403).json({ message: created.reason });
+      }
+      const trade = created.value;
 
       await storage.createAuditLog({
         userId: user.id, botId, action: `trade_${action}`,
@@ -589,15 +1331,9 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/bots/:id/trades", authMiddleware, async (req: Request, res: Response) => {
+  app.get("/api/bots/:id/trades", authMiddleware, requireBotAccess("view"), async (req: Request, res: Response) => {
     try {
-      const user = (req as any).user;
-      const botId = getParamId(req.params.id);
-      if (isNaN(botId)) return res.status(400).json({ message: "Invalid bot ID" });
-      const bot = await storage.getBot(botId);
-      if (!bot || bot.userId !== user.id) {
-        return res.status(404).json({ message: "Bot not found" });
-      }
+      const botId = ((req as any).bot as Bot).id;
       const botTrades = await storage.getTradesByBot(botId);
       res.json({ trades: botTrades });
     } catch (err: any) {
@@ -608,15 +1344,9 @@ export async function registerRoutes(
 
   // ── Posts & Mentions ──────────────────────────────────────
 
-  app.get("/api/bots/:id/posts", authMiddleware, async (req: Request, res: Response) => {
+  app.get("/api/bots/:id/posts", authMiddleware, requireBotAccess("view"), async (req: Request, res: Response) => {
     try {
-      const user = (req as any).user;
-      const botId = getParamId(req.params.id);
-      if (isNaN(botId)) return res.status(400).json({ message: "Invalid bot ID" });
-      const bot = await storage.getBot(botId);
-      if (!bot || bot.userId !== user.id) {
-        return res.status(404).json({ message: "Bot not found" });
-      }
+      const botId = ((req as any).bot as Bot).id;
       const botPosts = await storage.getPostsByBot(botId);
       res.json({ posts: botPosts });
     } catch (err: any) {
@@ -625,15 +1355,114 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/bots/:id/mentions", authMiddleware, async (req: Request, res: Response) => {
+  app.get("/api/bots/:id/posts/queue", authMiddleware, requireBotAccess("view"), async (req: Request, res: Response) => {
+    try {
+      const botId = ((req as any).bot as Bot).id;
+      const queued = await storage.getQueuedPostsByBot(botId);
+      res.json({ posts: queued });
+    } catch (err: any) {
+      console.error("Get post queue error:", err);
+      res.status(500).json({ message: "Failed to fetch post queue" });
+    }
+  });
+
+  app.post("/api/bots/:id/posts", authMiddleware, requireBotAccess("operate", "post"), async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user;
+      const botId = ((req as any).bot as Bot).id;
+
+      const parsed = queuePostSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+
+      const post = await storage.createPost({
+        botId,
+        content: parsed.data.content,
+        postType: "manual",
+        status: "queued",
+        scheduledFor: parsed.data.scheduledFor || new Date(),
+      });
+
+      await storage.createAuditLog({
+        userId: user.id, botId, action: "post_queued",
+        details: { postId: post.id, scheduledFor: post.scheduledFor },
+        source: "web",
+      });
+
+      res.json({ post });
+    } catch (err: any) {
+      console.error("Queue post error:", err);
+      res.status(500).json({ message: "Failed to queue post" });
+    }
+  });
+
+  app.put("/api/bots/:id/posts/:postId", authMiddleware, requireBotAccess("operate", "post"), async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user;
+      const botId = ((req as any).bot as Bot).id;
+      const postId = getParamId(req.params.postId);
+      if (isNaN(postId)) return res.status(400).json({ message: "Invalid post ID" });
+
+      const parsed = updateQueuedPostSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+
+      const post = await storage.getPost(postId);
+      if (!post || post.botId !== botId) {
+        return res.status(404).json({ message: "Post not found" });
+      }
+      const updated = await storage.transitionPost(postId, "queued", parsed.data);
+      if (!updated) {
+        return res.status(409).json({ message: "Only queued posts can be edited" });
+      }
+
+      await storage.createAuditLog({
+        userId: user.id, botId, action: "post_edited",
+        details: { postId, ...parsed.data },
+        source: "web",
+      });
+
+      res.json({ post: updated });
+    } catch (err: any) {
+      console.error("Edit post error:", err);
+      res.status(500).json({ message: "Failed to edit post" });
+    }
+  });
+
+  app.delete("/api/bots/:id/posts/:postId", authMiddleware, requireBotAccess("operate", "post"), async (req: Request, res: Response) => {
     try {
       const user = (req as any).user;
-      const botId = getParamId(req.params.id);
-      if (isNaN(botId)) return res.status(400).json({ message: "Invalid bot ID" });
-      const bot = await storage.getBot(botId);
-      if (!bot || bot.userId !== user.id) {
-        return res.status(404).json({ message: "Bot not found" });
+      const botId = ((req as any).bot as Bot).id;
+      const postId = getParamId(req.params.postId);
+      if (isNaN(postId)) return res.status(400).json({ message: "Invalid post ID" });
+
+      const post = await storage.getPost(postId);
+      if (!post || post.botId !== botId) {
+        return res.status(404).json({ message: "Post not found" });
+      }
+      const cancelled = await storage.transitionPost(postId, "queued", { status: "cancelled" });
+      if (!cancelled) {
+        return res.status(409).json({ message: "Only queued posts can be cancelled" });
       }
+
+      await storage.createAuditLog({
+        userId: user.id, botId, action: "post_cancelled",
+        details: { postId },
+        source: "web",
+      });
+
+      res.json({ success: true });
+    } catch (err: any) {
+      console.error("Cancel post error:", err);
+      res.status(500).json({ message: "Failed to cancel post" });
+    }
+  });
+
+  app.get("/api/bots/:id/mentions", authMiddleware, requireBotAccess("view"), async (req: Request, res: Response) => {
+    try {
+      const botId = ((req as any).bot as Bot).id;
       const botMentions = await storage.getMentionsByBot(botId);
       res.json({ mentions: botMentions });
     } catch (err: any) {
@@ -642,17 +1471,135 @@ export async function registerRoutes(
     }
   });
 
-  // ── Activity ──────────────────────────────────────────────
+  app.post("/api/bots/:id/preview", authMiddleware, requireBotAccess("operate", "post"), async (req: Request, res: Response) => {
+    try {
+      const bot = (req as any).bot as Bot;
+      const botId = bot.id;
+
+      const parsed = previewSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+
+      const { count = 3, mentionText, mentionAuthor, overrides } = parsed.data;
+      const persona: Persona = {
+        id: bot.id,
+        personalityPrompt: overrides?.personalityPrompt ?? bot.personalityPrompt,
+        personalityConfig: overrides?.personalityConfig ?? bot.personalityConfig,
+      };
+
+      const candidates = [];
+      if (mentionText) {
+        const prompt = buildReplyPrompt(persona, { authorUsername: mentionAuthor || "someone", text: mentionText });
+        const result = await completeTweet(persona, prompt, "preview");
+        candidates.push({ prompt, text: result.text, usage: result.usage });
+      } else {
+        const recentPosts = (await storage.getPostsByBot(botId))
+          .filter(p => p.status === "posted")
+          .slice(0, 5)
+          .map(p => p.content);
+        // Earlier candidates join the "do not repeat" list so the N outputs differ.
+        for (let i = 0; i < count; i++) {
+          const prompt = buildPostPrompt(persona, [...recentPosts, ...candidates.map(c => c.text)]);
+          const result = await completeTweet(persona, prompt, "preview");
+          candidates.push({ prompt, text: result.text, usage: result.usage });
+        }
+      }
+
+      res.json({ kind: mentionText ? "reply" : "post", candidates });
+    } catch (err: any) {
+      console.error("Preview error:", err);
+      res.status(500).json({ message: "Failed to generate preview" });
+    }
+  });
+
+  // ── Approvals ─────────────────────────────────────────────
+
+  app.get("/api/bots/:id/approvals", authMiddleware, requireBotAccess("view"), async (req: Request, res: Response) => {
+    try {
+      const botId = ((req as any).bot as Bot).id;
+      const pending = await storage.getPendingApprovals(botId);
+      res.json(pending);
+    } catch (err: any) {
+      console.error("Get approvals error:", err);
+      res.status(500).json({ message: "Failed to fetch approvals" });
+    }
+  });
+
+  app.post("/api/bots/:id/approvals/:kind/:itemId/:decision", authMiddleware, requireBotAccess("operate", approvalScope), async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user;
+      const bot = (req as any).bot as Bot;
+      const itemId = getParamId(req.params.itemId);
+      if (isNaN(itemId)) return res.status(400).json({ message: "Invalid ID" });
+      const kind = req.params.kind as ApprovalKind;
+      const decision = req.params.decision;
+      if (!APPROVAL_KINDS.includes(kind) || (decision !== "approve" && decision !== "reject")) {
+        return res.status(404).json({ message: "Not found" });
+      }
+      // Releasing a withdrawal moves funds, which only owners may do, and like
+      // /wallet/withdraw it needs step-up.
+      if (kind === "withdrawal" && decision === "approve") {
+        if (!roleAllows((req as any).botRole, "manage")) {
+          return res.status(403).json({ message: "Only owners can approve withdrawals" });
+        }
+        if (!(req as any).apiToken && !isSessionElevated((req as any).session)) {
+          return res.status(403).json({ message: "Please confirm your identity to continue", stepUpRequired: true });
+        }
+      }
+
+      const parsed = approvalDecisionSchema.safeParse(req.body || {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+
+      if (decision === "approve") {
+        await approvalService.approve(bot, kind, itemId, user.id, parsed.data.content);
+      } else {
+        await approvalService.reject(bot, kind, itemId, user.id, parsed.data.reason);
+      }
+      res.json({ success: true });
+    } catch (err: any) {
+      if (err instanceof ApprovalError) {
+        return res.status(err.status).json({ message: err.message });
+      }
+      console.error("Approval decision error:", err);
+      res.status(500).json({ message: "Failed to record decision" });
+    }
+  });
 
-  app.get("/api/bots/:id/activity", authMiddleware, async (req: Request, res: Response) => {
+  app.put("/api/bots/:id/approvals/:kind/:itemId", authMiddleware, requireBotAccess("operate", approvalScope), async (req: Request, res: Response) => {
     try {
       const user = (req as any).user;
-      const botId = getParamId(req.params.id);
-      if (isNaN(botId)) return res.status(400).json({ message: "Invalid bot ID" });
-      const bot = await storage.getBot(botId);
-      if (!bot || bot.userId !== user.id) {
-        return res.status(404).json({ message: "Bot not found" });
+      const bot = (req as any).bot as Bot;
+      const itemId = getParamId(req.params.itemId);
+      if (isNaN(itemId)) return res.status(400).json({ message: "Invalid ID" });
+      const kind = req.params.kind as ApprovalKind;
+      if (!APPROVAL_KINDS.includes(kind)) {
+        return res.status(404).json({ message: "Not found" });
       }
+
+      const parsed = approvalDecisionSchema.safeParse(req.body);
+      if (!parsed.success || !parsed.data.content) {
+        return res.status(400).json({ message: parsed.success ? "Content required" : parsed.error.errors[0].message });
+      }
+
+      await approvalService.edit(bot, kind, itemId, user.id, parsed.data.content);
+      res.json({ success: true });
+    } catch (err: any) {
+      if (err instanceof ApprovalError) {
+        return res.status(err.status).json({ message: err.message });
+      }
+      console.error("Approval edit error:", err);
+      res.status(500).json({ message: "Failed to edit item" });
+    }
+  });
+
+  // ── Activity ──────────────────────────────────────────────
+
+  app.get("/api/bots/:id/activity", authMiddleware, requireBotAccess("view"), async (req: Request, res: Response) => {
+    try {
+      const botId = ((req as any).bot as Bot).id;
       const logs = await storage.getAuditLogsByBot(botId);
       res.json({ logs });
     } catch (err: any) {
@@ -661,10 +1608,50 @@ export async function registerRoutes(
     }
   });
 
+  app.get("/api/bots/:id/analytics", authMiddleware, requireBotAccess("view"), async (req: Request, res: Response) => {
+    try {
+      const botId = ((req as any).bot as Bot).id;
+      const parsed = analyticsQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const range = resolveAnalyticsRange(parsed.data.bucket, parsed.data.from, parsed.data.to);
+      const [{ series, totals }, performance, volume24h] = await Promise.all([
+        analyticsService.getSeries(range, botId),
+        analyticsService.getBotPerformance(botId),
+        analyticsService.get24hVolume(botId),
+      ]);
+      res.json({ ...range, totals, series, performance, volume24h });
+    } catch (err: any) {
+      console.error("Get bot analytics error:", err);
+      res.status(500).json({ message: "Failed to fetch analytics" });
+    }
+  });
+
+  app.get("/api/analytics/platform", authMiddleware, async (req: Request, res: Response) => {
+    try {
+      const parsed = analyticsQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+      const range = resolveAnalyticsRange(parsed.data.bucket, parsed.data.from, parsed.data.to);
+      const [{ series, totals }, stats] = await Promise.all([
+        analyticsService.getSeries(range),
+        analyticsService.getPlatformStats(),
+      ]);
+      res.json({ ...range, totals, series, stats });
+    } catch (err: any) {
+      console.error("Get platform analytics error:", err);
+      res.status(500).json({ message: "Failed to fetch platform analytics" });
+    }
+  });
+
   app.get("/api/activity/recent", authMiddleware, async (req: Request, res: Response) => {
     try {
       const user = (req as any).user;
-      const logs = await storage.getRecentActivityByUser(user.id, 20);
+      const apiToken = (req as any).apiToken;
+      const limit = Math.min(parseInt(String(req.query.limit || "20"), 10) || 20, 100);
+      const logs = await storage.getRecentActivityByUser(user.id, limit, apiToken ? (id: number) => tokenAllowsBot(apiToken, id) : undefined);
       res.json({ logs });
     } catch (err: any) {
       console.error("Get recent activity error:", err);
@@ -692,6 +1679,57 @@ export async function registerRoutes(
     }
   });
 
+  app.post("/api/activity/stream/ticket", authMiddleware, async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user;
+      const session = (req as any).session;
+      res.set("Cache-Control", "no-store");
+      res.json({ ticket: activityStream.createTicket(user, session.id) });
+    } catch (err: any) {
+      console.error("Stream ticket error:", err);
+      res.status(500).json({ message: "Failed to create stream ticket" });
+    }
+  });
+
+  app.get("/api/activity/stream", streamAuthMiddleware, async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user;
+      const session = (req as any).session;
+      const apiToken = (req as any).apiToken;
+
+      let botId: number | undefined;
+      if (req.query.botId !== undefined) {
+        botId = parseInt(String(req.query.botId), 10);
+        if (isNaN(botId)) return res.status(400).json({ message: "Invalid bot ID" });
+        const bot = await storage.getBot(botId);
+        if (!bot || !(await getBotRole(user, bot)) || (apiToken && !tokenAllowsBot(apiToken, botId))) {
+          return res.status(404).json({ message: "Bot not found" });
+        }
+      }
+      if (!activityStream.canConnect(user.id)) {
+        return res.status(429).json({ message: "Too many open activity streams" });
+      }
+
+      const lastEventId = req.get("last-event-id") || (typeof req.query.lastEventId === "string" ? req.query.lastEventId : undefined);
+      activityStream.subscribe(res, {
+        user,
+        botId,
+        allowBot: apiToken ? (id: number) => tokenAllowsBot(apiToken, id) : undefined,
+        isAlive: async () => {
+          if (apiToken) {
+            const current = await storage.getApiTokenByHash(apiToken.tokenHash);
+            return !!current && !current.revokedAt && (!current.expiresAt || current.expiresAt.getTime() > Date.now());
+          }
+          const current = await storage.getSession(session.id);
+          return !!current && !current.revokedAt && current.expiresAt.getTime() > Date.now();
+        },
+      }, lastEventId);
+    } catch (err: any) {
+      console.error("Activity stream error:", err);
+      if (!res.headersSent) res.status(500).json({ message: "Failed to open activity stream" });
+    }
+  });
+
   app.get("/api/activity/public", async (_req: Request, res: Response) => {
     try {
       const items = await storage.getCombinedActivity(15);
@@ -702,28 +1740,19 @@ export async function registerRoutes(
     }
   });
 
-  // ── X OAuth Scaffolding ───────────────────────────────────
+  // ── X OAuth ───────────────────────────────────────────────
 
-  app.post("/api/bots/:id/x/connect", authMiddleware, async (req: Request, res: Response) => {
+  app.post("/api/bots/:id/x/connect", authMiddleware, requireBotAccess("manage"), async (req: Request, res: Response) => {
     try {
       const user = (req as any).user;
-      const botId = getParamId(req.params.id);
-      if (isNaN(botId)) return res.status(400).json({ message: "Invalid bot ID" });
-      const bot = await storage.getBot(botId);
-      if (!bot || bot.userId !== user.id) {
-        return res.status(404).json({ message: "Bot not found" });
-      }
+      const botId = ((req as any).bot as Bot).id;
 
-      const clientId = process.env.X_CLIENT_ID;
-      const redirectUri = process.env.X_REDIRECT_URI;
-      if (!clientId || !redirectUri) {
+      const config = getXOAuthConfig();
+      if (!config) {
         return res.status(503).json({ message: "𝕏 integration not configured. Please set X_CLIENT_ID and X_REDIRECT_URI." });
       }
 
-      const state = Buffer.from(JSON.stringify({ botId, userId: user.id })).toString("base64url");
-      const scopes = "tweet.read tweet.write users.read offline.access";
-      const authUrl = `https://twitter.com/i/oauth2/authorize?response_type=code&client_id=${clientId}&redirect_uri=${encodeURIComponent(redirectUri)}&scope=${encodeURIComponent(scopes)}&state=${state}&code_challenge=challenge&code_challenge_method=plain`;
-
+      const authUrl = await createAuthorizationUrl(config, user.id, botId);
       res.json({ authUrl });
     } catch (err: any) {
       console.error("X connect error:", err);
@@ -734,48 +1763,20 @@ export async function registerRoutes(
   app.get("/api/x/callback", async (req: Request, res: Response) => {
     try {
       const { code, state } = req.query;
-      if (!code || !state) {
+      if (typeof code !== "string" || typeof state !== "string") {
         return res.status(400).json({ message: "Missing code or state" });
       }
 
-      const clientId = process.env.X_CLIENT_ID;
-      const clientSecret = process.env.X_CLIENT_SECRET;
-      const redirectUri = process.env.X_REDIRECT_URI;
-      if (!clientId || !clientSecret || !redirectUri) {
+      const config = getXOAuthConfig();
+      if (!config || !config.clientSecret) {
         return res.status(503).json({ message: "𝕏 integration not configured" });
       }
 
-      let stateData: { botId: number; userId: number };
-      try {
-        stateData = JSON.parse(Buffer.from(state as string, "base64url").toString());
-      } catch {
-        return res.status(400).json({ message: "Invalid state parameter" });
-      }
-
-      const tokenResponse = await fetch("https://api.twitter.com/2/oauth2/token", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/x-www-form-urlencoded",
-          Authorization: `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString("base64")}`,
-        },
-        body: new URLSearchParams({
-          code: code as string,
-          grant_type: "authorization_code",
-          redirect_uri: redirectUri,
-          code_verifier: "challenge",
-        }),
-      });
-
-      if (!tokenResponse.ok) {
-        console.error("X token exchange failed:", await tokenResponse.text());
-        return res.status(400).json({ message: "Failed to exchange authorization code" });
-      }
-
-      const tokenData = await tokenResponse.json();
-      const { access_token, refresh_token, expires_in } = tokenData;
+      const stateData = await consumeAuthorizationState(state);
+      const tokens = await exchangeAuthorizationCode(config, code, stateData.codeVerifier);
 
       const userResponse = await fetch("https://api.twitter.com/2/users/me?user.fields=profile_image_url", {
-        headers: { Authorization: `Bearer ${access_token}` },
+        headers: { Authorization: `Bearer ${tokens.accessToken}` },
       });
 
       if (!userResponse.ok) {
@@ -785,20 +1786,27 @@ export async function registerRoutes(
       const userData = await userResponse.json();
       const xUser = userData.data;
 
-      const encryptedAccessToken = encrypt(access_token);
-      const encryptedRefreshToken = encrypt(refresh_token);
-      const tokenExpiresAt = new Date(Date.now() + (expires_in * 1000));
-
       await storage.upsertBotXAccount({
         botId: stateData.botId,
         xUserId: xUser.id,
         xUsername: xUser.username,
         xProfileImageUrl: xUser.profile_image_url || null,
-        encryptedAccessToken,
-        encryptedRefreshToken,
-        tokenExpiresAt,
+        encryptedAccessToken: encrypt(tokens.accessToken),
+        encryptedRefreshToken: encrypt(tokens.refreshToken),
+        tokenExpiresAt: tokens.expiresAt,
       });
 
+      const connectedBot = await storage.getBot(stateData.botId);
+      if (connectedBot && !connectedBot.transactionCommanderXId) {
+        // A failed lookup leaves the id unset for the mention worker to retry.
+        try {
+          const commanderId = await resolveCommanderId(connectedBot.id, connectedBot.transactionCommanderX);
+          if (commanderId) await storage.updateBot(connectedBot.id, { transactionCommanderXId: commanderId });
+        } catch (err) {
+          console.error("Commander lookup error:", err);
+        }
+      }
+
       await storage.createAuditLog({
         userId: stateData.userId,
         botId: stateData.botId,
@@ -809,20 +1817,19 @@ export async function registerRoutes(
 
       res.redirect(`/#/bot/${stateData.botId}?x_connected=true`);
     } catch (err: any) {
+      if (err instanceof XOAuthError) {
+        return res.status(400).json({ message: err.message });
+      }
       console.error("X callback error:", err);
       res.status(500).json({ message: "Failed to complete 𝕏 connection" });
     }
   });
 
-  app.post("/api/bots/:id/x/disconnect", authMiddleware, async (req: Request, res: Response) => {
+  app.post("/api/bots/:id/x/disconnect", authMiddleware, requireBotAccess("manage"), async (req: Request, res: Response) => {
     try {
       const user = (req as any).user;
-      const botId = getParamId(req.params.id);
-      if (isNaN(botId)) return res.status(400).json({ message: "Invalid bot ID" });
-      const bot = await storage.getBot(botId);
-      if (!bot || bot.userId !== user.id) {
-        return res.status(404).json({ message: "Bot not found" });
-      }
+      const bot = (req as any).bot as Bot;
+      const botId = bot.id;
 
       await storage.deleteBotXAccount(botId);
 
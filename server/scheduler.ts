@@ -0,0 +1,119 @@
+import { storage } from "./storage";
+import { xTokenManager } from "./x-tokens";
+import { postTweet } from "./x";
+import { generatePost } from "./content";
+import { PollingWorker } from "./worker";
+import type { Bot, BotPost } from "@shared/schema";
+
+const TICK_INTERVAL_MS = 30 * 1000;
+const RECENT_POSTS_CONTEXT = 5;
+
+export class PostScheduler extends PollingWorker {
+  constructor() {
+    super("Post scheduler", TICK_INTERVAL_MS);
+  }
+
+  protected async tick(): Promise<void> {
+    const now = new Date();
+
+    const queued = await storage.getDueQueuedPosts(now);
+    for (const post of queued) {
+      try {
+        await this.publishQueuedPost(post);
+      } catch (err) {
+        console.error(`Queued post error for post ${post.id}:`, err);
+      }
+    }
+
+    const dueBots = await storage.getBotsDueForPost(now);
+    for (const bot of dueBots) {
+      try {
+        await this.postForBot(bot);
+      } catch (err) {
+        console.error(`Scheduled post error for bot ${bot.id}:`, err);
+      }
+    }
+  }
+
+  async postForBot(bot: Bot): Promise<void> {
+    const xAccount = await storage.getBotXAccount(bot.id);
+    if (!xAccount) {
+      await storage.updateBot(bot.id, { status: "paused" } as any);
+      await storage.createAuditLog({
+        userId: bot.userId, botId: bot.id, action: "bot_paused",
+        details: { reason: "No 𝕏 account connected" },
+        source: "agent",
+      });
+      return;
+    }
+
+    // The schedule advances even when the attempt fails, so a broken token or
+    // provider outage retries on the next interval instead of every tick.
+    await storage.updateBot(bot.id, { lastPostAt: new Date() } as any);
+
+    const recentPosts = (await storage.getPostsByBot(bot.id))
+      .filter(p => p.status === "posted")
+      .slice(0, RECENT_POSTS_CONTEXT)
+      .map(p => p.content);
+
+    let content: string;
+    try {
+      content = await generatePost(bot, recentPosts);
+    } catch (err: any) {
+      await storage.createAuditLog({
+        userId: bot.userId, botId: bot.id, action: "post_generation_failed",
+        details: { error: err.message },
+        source: "agent",
+      });
+      return;
+    }
+
+    if (bot.approvalMode) {
+      const post = await storage.createPost({ botId: bot.id, content, postType: "auto", status: "pending_approval" });
+      await storage.createAuditLog({
+        userId: bot.userId, botId: bot.id, action: "approval_requested",
+        details: { kind: "post", postId: post.id },
+        source: "agent",
+      });
+      return;
+    }
+
+    const post = await storage.createPost({ botId: bot.id, content, postType: "auto", status: "pending" });
+    await this.publish(bot, post);
+  }
+
+  // Queued posts only go out while their bot is active; a paused bot's queue
+  // waits until it is resumed.
+  private async publishQueuedPost(post: BotPost): Promise<void> {
+    const bot = await storage.getBot(post.botId);
+    if (!bot || bot.status !== "active") return;
+    if (!(await storage.getBotXAccount(bot.id))) return;
+
+    const claimed = await storage.transitionPost(post.id, "queued", { status: "pending" });
+    if (!claimed) return;
+
+    await storage.updateBot(bot.id, { lastPostAt: new Date() } as any);
+    await this.publish(bot, claimed);
+  }
+
+  private async publish(bot: Bot, post: BotPost): Promise<void> {
+    try {
+      const tweet = await xTokenManager.withAccessToken(bot.id, token => postTweet(token, post.content));
+      await storage.updatePost(post.id, { status: "posted", tweetId: tweet.id, postedAt: new Date() });
+      await storage.createAuditLog({
+        userId: bot.userId, botId: bot.id, action: "tweet_posted",
+        details: { postId: post.id, tweetId: tweet.id, postType: post.postType },
+        source: "agent",
+      });
+    } catch (err: any) {
+      await storage.updatePost(post.id, { status: "failed", errorMessage: err.message });
+      await storage.createAuditLog({
+        userId: bot.userId, botId: bot.id, action: "tweet_failed",
+        details: { postId: post.id, postType: post.postType, error: err.message },
+        source: "agent",
+      });
+    }
+  }
+}
+
+export const postScheduler = new PostScheduler();
@@ -0,0 +1,160 @@
+import { randomBytes, randomUUID, createHash, timingSafeEqual } from "crypto";
+import jwt from "jsonwebtoken";
+import { storage } from "./storage";
+import type { Session, User } from "@shared/schema";
+
+const ACCESS_TOKEN_TTL = "15m";
+const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+export class SessionError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "SessionError";
+  }
+}
+
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+  session: Session;
+}
+
+export interface SessionMeta {
+  userAgent?: string;
+  ip?: string;
+}
+
+export function getJwtSecret(): string {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    if (process.env.NODE_ENV === "production") {
+      throw new Error("SESSION_SECRET is required in production");
+    }
+    return "moltcook-dev-jwt-secret-do-not-use-in-production";
+  }
+  return secret;
+}
+
+function hashSecret(secret: string): string {
+  return createHash("sha256").update(secret).digest("hex");
+}
+
+function hashesMatch(a: string, b: string): boolean {
+  return a.length === b.length && timingSafeEqual(Buffer.from(a), Buffer.from(b));
+}
+
+/** Public view of a session; never includes the refresh token hash. */
+export function describeSession(session: Session, currentId?: string) {
+  const { refreshTokenHash: _hash, ...rest } = session;
+  return { ...rest, current: session.id === currentId };
+}
+
+/**
+ * Login sessions. Access tokens are short-lived JWTs naming their session;
+ * refresh tokens (`<sessionId>.<secret>`) rotate on every use. Presenting a
+ * refresh token that has already been rotated means it was copied, so the
+ * whole session is revoked.
+ */
+export class SessionService {
+  async start(user: User, meta: SessionMeta): Promise<SessionTokens> {
+    const secret = randomBytes(32).toString("base64url");
+    const session = await storage.createSession({
+      id: randomUUID(),
+      userId: user.id,
+      refreshTokenHash: hashSecret(secret),
+      userAgent: meta.userAgent?.slice(0, 255) ?? null,
+      ip: meta.ip ?? null,
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+    });
+    return { token: this.signAccessToken(user.id, session.id), refreshToken: `${session.id}.${secret}`, session };
+  }
+
+  async refresh(refreshToken: string, meta: SessionMeta): Promise<SessionTokens> {
+    const [sessionId, secret] = refreshToken.split(".");
+    if (!sessionId || !secret) throw new SessionError("Invalid refresh token", 401);
+
+    const session = await storage.getSession(sessionId);
+    if (!session || session.revokedAt || session.expiresAt.getTime() <= Date.now()) {
+      throw new SessionError("Session expired", 401);
+    }
+
+    const presentedHash = hashSecret(secret);
+    if (!hashesMatch(presentedHash, session.refreshTokenHash)) {
+      await this.revokeForReuse(session, meta);
+      throw new SessionError("Session expired", 401);
+    }
+
+    const nextSecret = randomBytes(32).toString("base64url");
+    const rotated = await storage.rotateSessionRefreshToken(session.id, presentedHash, {
+      refreshTokenHash: hashSecret(nextSecret),
+      userAgent: meta.userAgent?.slice(0, 255) ?? session.userAgent,
+      ip: meta.ip ?? session.ip,
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+    });
+    // Lost the race to a concurrent refresh with the same token: one of the
+    // two callers holds a stolen copy.
+    if (!rotated) {
+      await this.revokeForReuse(session, meta);
+      throw new SessionError("Session expired", 401);
+    }
+    return { token: this.signAccessToken(rotated.userId, rotated.id), refreshToken: `${rotated.id}.${nextSecret}`, session: rotated };
+  }
+
+  /** Resolve an access token to its user and live session, or null. */
+  async authenticate(token: string): Promise<{ user: User; session: Session } | null> {
+    let payload: { userId: number; sid?: string; aud?: string };
+    try {
+      payload = jwt.verify(token, getJwtSecret()) as { userId: number; sid?: string; aud?: string };
+    } catch {
+      return null;
+    }
+    // Tokens issued before sessions existed carry no sid and can't be revoked.
+    // Tokens with an audience (login challenges, stream tickets) are single-purpose.
+    if (!payload.sid || payload.aud) return null;
+
+    const session = await storage.getSession(payload.sid);
+    if (!session || session.userId !== payload.userId || session.revokedAt) return null;
+    if (session.expiresAt.getTime() <= Date.now()) return null;
+
+    const user = await storage.getUser(payload.userId);
+    if (!user) return null;
+    return { user, session };
+  }
+
+  async revoke(user: User, sessionId: string, reason = "logout"): Promise<void> {
+    const session = await storage.revokeSession(sessionId, reason, user.id);
+    if (!session) throw new SessionError("Session not found", 404);
+    await storage.createAuditLog({
+      userId: user.id, botId: null, action: "session_revoked",
+      details: { sessionId, reason },
+      source: "web",
+    });
+  }
+
+  /** Sign out every session of the user, optionally keeping the caller's. */
+  async revokeAll(user: User, reason: string, exceptId?: string): Promise<number> {
+    const count = await storage.revokeUserSessions(user.id, reason, exceptId);
+    await storage.createAuditLog({
+      userId: user.id, botId: null, action: "sessions_revoked",
+      details: { count, reason, keptSessionId: exceptId ?? null },
+      source: "web",
+    });
+    return count;
+  }
+
+  private signAccessToken(userId: number, sessionId: string): string {
+    return jwt.sign({ userId, sid: sessionId }, getJwtSecret(), { expiresIn: ACCESS_TOKEN_TTL });
+  }
+
+  private async revokeForReuse(session: Session, meta: SessionMeta): Promise<void> {
+    const revoked = await storage.revokeSession(session.id, "refresh_reuse");
+    if (!revoked) return;
+    await storage.createAuditLog({
+      userId: session.userId, botId: null, action: "session_refresh_reuse_detected",
+      details: { sessionId: session.id, ip: meta.ip, userAgent: meta.userAgent },
+      source: "web",
+    });
+  }
+}
+
+export const sessionService = new SessionService();
@@ -0,0 +1,57 @@
+import {
+  Connection, Keypair, PublicKey, LAMPORTS_PER_SOL, SendTransactionError, VersionedTransaction,
+} from "@solana/web3.js";
+import bs58 from "bs58";
+import { decrypt } from "./crypto";
+
+export const NATIVE_SOL_MINT = "So11111111111111111111111111111111111111112";
+
+let connection: Connection | null = null;
+
+export function getSolanaRpcUrl(): string {
+  return process.env.SOLANA_RPC_URL || "https://api.mainnet-beta.solana.com";
+}
+
+export function getConnection(): Connection {
+  if (!connection) {
+    connection = new Connection(getSolanaRpcUrl(), "confirmed");
+  }
+  return connection;
+}
+
+export function loadKeypair(encryptedPrivateKey: string): Keypair {
+  return Keypair.fromSecretKey(bs58.decode(decrypt(encryptedPrivateKey)));
+}
+
+export function solToLamports(amountSol: number): number {
+  return Math.round(amountSol * LAMPORTS_PER_SOL);
+}
+
+export function lamportsToSol(lamports: number): number {
+  return lamports / LAMPORTS_PER_SOL;
+}
+
+export async function getSolBalance(address: string): Promise<number> {
+  const lamports = await getConnection().getBalance(new PublicKey(address));
+  return lamportsToSol(lamports);
+}
+
+export async function getMintDecimals(mint: string): Promise<number> {
+  const supply = await getConnection().getTokenSupply(new PublicKey(mint));
+  return supply.value.decimals;
+}
+
+/**
+ * Send a signed transaction. Preflight rejections mean it was never accepted
+ * and are rethrown; transport errors are swallowed because the transaction may
+ * still have landed and the confirmation tracker will settle it either way.
+ */
+export async function broadcastTransaction(transaction: VersionedTransaction | Buffer): Promise<void> {
+  const raw = transaction instanceof VersionedTransaction ? transaction.serialize() : transaction;
+  try {
+    await getConnection().sendRawTransaction(raw, { maxRetries: 3 });
+  } catch (err) {
+    if (err instanceof SendTransactionError) throw err;
+    console.error("Broadcast error:", err);
+  }
+}
@@ -1,12 +1,16 @@
-import { db } from "./db";
-import { eq, desc, inArray } from "drizzle-orm";
+import { db as rootDb, type DbExecutor } from "./db";
+import { botEvents, publishActivity, type ActivitySource } from "./events";
+import { eq, ne, desc, inArray, and, or, sql, lt, lte, gt, gte, isNull } from "drizzle-orm";
 import {
   users, bots, botXAccounts, botWallets, trades, withdrawals,
-  botPosts, botMentions, auditLogs,
+  botPosts, botMentions, auditLogs, xOauthStates, llmUsage, botRiskPolicies,
+  withdrawalAddresses, organizations, organizationMembers, apiTokens, sessions, webhookEndpoints, webhookDeliveries,
   type InsertUser, type User, type InsertBot, type Bot,
   type BotWallet, type BotXAccount, type Trade, type Withdrawal,
-  type BotPost, type BotMention, type AuditLog,
-  type InsertTrade, type InsertWithdrawal, type InsertAuditLog,
+  type BotPost, type BotMention, type AuditLog, type XOauthState,
+  type BotRiskPolicy, type WithdrawalAddress, type Organization, type OrganizationMember, type ApiToken, type Session, type WebhookEndpoint, type WebhookDelivery,
+  type InsertTrade, type InsertWithdrawal, type InsertAuditLog, type InsertBotPost,
+  type InsertBotMention, type InsertLlmUsage,
 } from "@shared/schema";
 
 export interface IStorage {
@@ -15,16 +19,66 @@ export interface IStorage {
   createUser(user: InsertUser): Promise<User>;
   updateUserPassword(id: number, passwordHash: string): Promise<void>;
   deleteUser(id: number): Promise<void>;
+  updateUserTwoFactor(id: number, data: Partial<Pick<User, "encryptedTotpSecret" | "totpEnabledAt" | "totpLastStep" | "totpRecoveryCodes">>): Promise<void>;
+  claimTotpStep(userId: number, step: number): Promise<boolean>;
+  consumeRecoveryCode(userId: number, codeHash: string): Promise<boolean>;
+  getUsersWithTotpAfter(afterId: number, limit: number): Promise<User[]>;
+  replaceUserTotpSecret(id: number, expected: string, encryptedTotpSecret: string): Promise<boolean>;
+
+  createApiToken(data: Omit<ApiToken, "id" | "lastUsedAt" | "revokedAt" | "createdAt">): Promise<ApiToken>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  getApiTokensByUser(userId: number): Promise<ApiToken[]>;
+  touchApiToken(id: number, at: Date): Promise<void>;
+  revokeApiToken(userId: number, id: number): Promise<ApiToken | undefined>;
+
+  createSession(data: Pick<Session, "id" | "userId" | "refreshTokenHash" | "userAgent" | "ip" | "expiresAt">): Promise<Session>;
+  getSession(id: string): Promise<Session | undefined>;
+  getActiveSessionsByUser(userId: number): Promise<Session[]>;
+  rotateSessionRefreshToken(id: string, expectedHash: string, data: Pick<Session, "refreshTokenHash" | "userAgent" | "ip" | "expiresAt">): Promise<Session | undefined>;
+  revokeSession(id: string, reason: string, userId?: number): Promise<Session | undefined>;
+  revokeUserSessions(userId: number, reason: string, exceptId?: string): Promise<number>;
+  elevateSession(id: string, until: Date): Promise<void>;
+
+  createWebhookEndpoint(data: Pick<WebhookEndpoint, "userId" | "url" | "description" | "encryptedSecret" | "events" | "botIds">): Promise<WebhookEndpoint>;
+  getWebhookEndpoint(id: number): Promise<WebhookEndpoint | undefined>;
+  getWebhookEndpointsByUser(userId: number): Promise<WebhookEndpoint[]>;
+  getWebhookEndpointsForEvent(bot: Bot, eventType: string): Promise<WebhookEndpoint[]>;
+  updateWebhookEndpoint(id: number, data: Partial<WebhookEndpoint>): Promise<WebhookEndpoint | undefined>;
+  deleteWebhookEndpoint(userId: number, id: number): Promise<boolean>;
+  getWebhookEndpointsAfter(afterId: number, limit: number): Promise<WebhookEndpoint[]>;
+  replaceWebhookSecret(id: number, expected: string, encryptedSecret: string): Promise<boolean>;
+  createWebhookDelivery(data: Pick<WebhookDelivery, "endpointId" | "eventId" | "eventType" | "botId" | "payload">): Promise<WebhookDelivery>;
+  getWebhookDelivery(id: number): Promise<WebhookDelivery | undefined>;
+  getWebhookDeliveries(endpointId: number, limit?: number): Promise<WebhookDelivery[]>;
+  getDueWebhookDeliveries(now: Date, staleBefore: Date, limit: number): Promise<WebhookDelivery[]>;
+  transitionWebhookDelivery(id: number, fromStatus: string, data: Partial<WebhookDelivery>): Promise<WebhookDelivery | undefined>;
+
+  createOrganization(name: string, ownerId: number): Promise<Organization>;
+  getOrganization(id: number): Promise<Organization | undefined>;
+  getOrganizationsByUser(userId: number): Promise<(Organization & { role: string })[]>;
+  getOrganizationMember(organizationId: number, userId: number): Promise<OrganizationMember | undefined>;
+  getOrganizationMembers(organizationId: number): Promise<(OrganizationMember & { username: string })[]>;
+  addOrganizationMember(organizationId: number, userId: number, role: string): Promise<OrganizationMember | undefined>;
+  updateOrganizationMemberRole(organizationId: number, userId: number, role: string): Promise<OrganizationMember | undefined>;
+  removeOrganizationMember(organizationId: number, userId: number): Promise<OrganizationMember | undefined>;
+  countOrganizationOwners(organizationId: number): Promise<number>;
 
   createBot(data: InsertBot): Promise<Bot>;
   getBotsByUser(userId: number): Promise<Bot[]>;
-  getBotsByUserWithDetails(userId: number): Promise<(Bot & { walletAddress: string | null; xUsername: string | null; xProfileImageUrl: string | null; solBalance: string })[]>;
+  countBotsByUser(userId: number): Promise<number>;
+  getBotsByUserWithDetails(userId: number): Promise<(Bot & { walletAddress: string | null; walletChain: string | null; xUsername: string | null; xProfileImageUrl: string | null; solBalance: string })[]>;
   getBot(id: number): Promise<Bot | undefined>;
   updateBot(id: number, data: Partial<Bot>): Promise<Bot | undefined>;
   deleteBot(id: number): Promise<void>;
+  getBotsDueForPost(now: Date): Promise<Bot[]>;
+  getBotsByStatus(statuses: string[]): Promise<Bot[]>;
 
   getBotWallet(botId: number): Promise<BotWallet | undefined>;
-  createBotWallet(data: { botId: number; publicAddress: string; encryptedPrivateKey: string }): Promise<BotWallet>;
+  createBotWallet(data: { botId: number; chain?: string; publicAddress: string; encryptedPrivateKey: string }): Promise<BotWallet>;
+  getBotWalletByAddress(publicAddress: string): Promise<BotWallet | undefined>;
+  replaceBotWallet(botId: number, data: { chain: string; publicAddress: string; encryptedPrivateKey: string }): Promise<BotWallet | undefined>;
+  getBotWalletsAfter(afterId: number, limit: number): Promise<BotWallet[]>;
+  replaceBotWalletKey(id: number, expected: string, encryptedPrivateKey: string): Promise<boolean>;
 
   getBotXAccount(botId: number): Promise<BotXAccount | undefined>;
   upsertBotXAccount(data: {
@@ -36,26 +90,89 @@ export interface IStorage {
     encryptedRefreshToken: string;
     tokenExpiresAt: Date;
   }): Promise<BotXAccount>;
+  updateBotXAccountTokens(botId: number, data: { encryptedAccessToken: string; encryptedRefreshToken: string; tokenExpiresAt: Date }): Promise<void>;
   deleteBotXAccount(botId: number): Promise<void>;
+  getBotXAccountsAfter(afterId: number, limit: number): Promise<BotXAccount[]>;
+  replaceBotXAccountTokens(
+    id: number,
+    expected: { encryptedAccessToken: string; encryptedRefreshToken: string },
+    next: { encryptedAccessToken: string; encryptedRefreshToken: string },
+  ): Promise<boolean>;
+
+  createXOauthState(data: { nonce: string; userId: number; botId: number; encryptedCodeVerifier: string; expiresAt: Date }): Promise<XOauthState>;
+  consumeXOauthState(nonce: string): Promise<XOauthState | undefined>;
+  deleteExpiredXOauthStates(now: Date): Promise<void>;
 
   getTradesByBot(botId: number): Promise<Trade[]>;
+  getTrade(id: number): Promise<Trade | undefined>;
   createTrade(data: InsertTrade): Promise<Trade>;
   updateTrade(id: number, data: Partial<Trade>): Promise<void>;
+  getTradesByStatus(status: string, limit?: number): Promise<Trade[]>;
+  transitionTrade(id: number, fromStatus: string, data: Partial<Trade>): Promise<Trade | undefined>;
 
   getWithdrawalsByBot(botId: number): Promise<Withdrawal[]>;
+  getWithdrawal(id: number): Promise<Withdrawal | undefined>;
   createWithdrawal(data: InsertWithdrawal): Promise<Withdrawal>;
+  updateWithdrawal(id: number, data: Partial<Withdrawal>): Promise<void>;
+  hasInFlightTransactions(botId: number): Promise<boolean>;
+  getWithdrawalsByStatus(status: string, limit?: number): Promise<Withdrawal[]>;
+  transitionWithdrawal(id: number, fromStatus: string, data: Partial<Withdrawal>): Promise<Withdrawal | undefined>;
+
+  sumTradeSpendSince(botId: number, since: Date): Promise<number>;
+  sumWithdrawalsSince(botId: number, since: Date, chain: string): Promise<number>;
+  sumTokenWithdrawalsSince(botId: number, since: Date, tokenAddress: string): Promise<number>;
+
+  getWithdrawalAddresses(userId: number): Promise<WithdrawalAddress[]>;
+  getWithdrawalAddress(userId: number, address: string): Promise<WithdrawalAddress | undefined>;
+  createWithdrawalAddress(data: { userId: number; label: string; address: string; chain?: string; activatesAt: Date }): Promise<WithdrawalAddress>;
+  deleteWithdrawalAddress(userId: number, id: number): Promise<WithdrawalAddress | undefined>;
+
+  /**
+   * Run `fn` in a transaction that holds the bot's lock, with a storage bound
+   * to that transaction. Spend checks and the writes they allow go through
+   * here so that concurrent requests for one bot are serialized.
+   */
+  withBotLock<T>(botId: number, fn: (locked: IStorage) => Promise<T>): Promise<T>;
+  getRiskPolicy(botId: number): Promise<BotRiskPolicy | undefined>;
+  upsertRiskPolicy(botId: number, data: Omit<BotRiskPolicy, "id" | "botId" | "updatedAt">): Promise<BotRiskPolicy>;
 
   getPostsByBot(botId: number): Promise<BotPost[]>;
+  getPost(id: number): Promise<BotPost | undefined>;
+  getQueuedPostsByBot(botId: number): Promise<BotPost[]>;
+  getDueQueuedPosts(now: Date): Promise<BotPost[]>;
+  createPost(data: InsertBotPost): Promise<BotPost>;
+  updatePost(id: number, data: Partial<BotPost>): Promise<void>;
+  transitionPost(id: number, fromStatus: string, data: Partial<BotPost>): Promise<BotPost | undefined>;
   getMentionsByBot(botId: number): Promise<BotMention[]>;
+  getMentionByTweetId(mentionTweetId: string): Promise<BotMention | undefined>;
+  createMention(data: InsertBotMention): Promise<BotMention | undefined>;
+  updateMention(id: number, data: Partial<BotMention>): Promise<void>;
+  getMention(id: number): Promise<BotMention | undefined>;
+  transitionMention(id: number, fromReplyStatus: string, data: Partial<BotMention>): Promise<BotMention | undefined>;
+
+  getPendingApprovals(botId: number): Promise<PendingApprovals>;
+  getBotIdsWithPendingApprovals(): Promise<number[]>;
+  expirePendingApprovals(botId: number, cutoff: Date): Promise<PendingApprovals>;
+
+  recordLlmUsage(data: InsertLlmUsage): Promise<void>;
 
   getAuditLogsByBot(botId: number): Promise<AuditLog[]>;
-  getRecentActivityByUser(userId: number, limit?: number): Promise<(AuditLog & { botName?: string })[]>;
-  getAllBots(limit?: number): Promise<(Bot & { ownerUsername?: string; walletAddress?: string | null; xUsername?: string | null; xProfileImageUrl?: string | null })[]>;
+  /** `allowBot` narrows to some of the user's bots, e.g. an API token's; account-level entries are then left out. */
+  getRecentActivityByUser(userId: number, limit?: number, allowBot?: (botId: number) => boolean): Promise<(AuditLog & { botName?: string })[]>;
+  getAllBots(limit?: number): Promise<(Bot & { ownerUsername?: string; walletAddress?: string | null; walletChain?: string | null; xUsername?: string | null; xProfileImageUrl?: string | null })[]>;
   getGlobalActivity(limit?: number): Promise<(AuditLog & { botName?: string; ownerUsername?: string })[]>;
   getCombinedActivity(limit?: number): Promise<CombinedActivityItem[]>;
+  getBotActivityContext(botId: number): Promise<(ActivityContext & { viewerIds: number[] }) | undefined>;
   createAuditLog(data: InsertAuditLog): Promise<AuditLog>;
 }
 
+export interface PendingApprovals {
+  posts: BotPost[];
+  replies: BotMention[];
+  trades: Trade[];
+  withdrawals: Withdrawal[];
+}
+
 export interface CombinedActivityItem {
   id: string;
   type: "tweet" | "trade" | "system";
@@ -68,52 +185,389 @@ export interface CombinedActivityItem {
   createdAt: Date | null;
 }
 
+export interface ActivityContext {
+  botName: string;
+  ownerUsername: string;
+  botProfileImageUrl: string | null;
+}
+
+export function buildActivityItem(source: ActivitySource, ctx: ActivityContext): CombinedActivityItem {
+  switch (source.kind) {
+    case "post": {
+      const post = source.row;
+      return {
+        id: `tweet-${post.id}`,
+        type: "tweet",
+        action: post.postType === "reply" ? "reply_posted" : "tweet_posted",
+        botId: post.botId,
+        ...ctx,
+        details: { content: post.content?.slice(0, 120), tweetId: post.tweetId, postType: post.postType, status: post.status },
+        createdAt: post.createdAt,
+      };
+    }
+    case "trade": {
+      const trade = source.row;
+      return {
+        id: `trade-${trade.id}`,
+        type: "trade",
+        action: trade.tradeType === "buy" ? "token_bought" : "token_sold",
+        botId: trade.botId,
+        ...ctx,
+        details: { tokenMint: trade.tokenMint, tokenSymbol: trade.tokenSymbol, amountSol: trade.amountSol, amountTokens: trade.amountTokens, txHash: trade.txHash, status: trade.status, tradeType: trade.tradeType },
+        createdAt: trade.createdAt,
+      };
+    }
+    case "log": {
+      const log = source.row;
+      return {
+        id: `log-${log.id}`,
+        type: "system",
+        action: log.action,
+        botId: log.botId || 0,
+        ...ctx,
+        details: log.details,
+        createdAt: log.createdAt,
+      };
+    }
+  }
+}
+
+// First key of the two-key advisory lock taken by withBotLock; the second is the bot id.
+const BOT_LOCK_NAMESPACE = 7301;
+
 export class DatabaseStorage implements IStorage {
+  /** Pass a transaction to get a storage whose reads and writes run inside it. */
+  constructor(private readonly db: DbExecutor = rootDb) {}
+
   async getUser(id: number): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.id, id));
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
     return user;
   }
 
   async getUserByUsername(username: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.username, username));
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
     return user;
   }
 
   async createUser(data: InsertUser): Promise<User> {
-    const [user] = await db.insert(users).values(data).returning();
+    const [user] = await this.db.insert(users).values(data).returning();
     return user;
   }
 
   async updateUserPassword(id: number, passwordHash: string): Promise<void> {
-    await db.update(users).set({ passwordHash }).where(eq(users.id, id));
+    await this.db.update(users).set({ passwordHash }).where(eq(users.id, id));
   }
 
   async deleteUser(id: number): Promise<void> {
-    await db.delete(users).where(eq(users.id, id));
+    await this.db.delete(users).where(eq(users.id, id));
+  }
+
+  async updateUserTwoFactor(
+    id: number,
+    data: Partial<Pick<User, "encryptedTotpSecret" | "totpEnabledAt" | "totpLastStep" | "totpRecoveryCodes">>,
+  ): Promise<void> {
+    await this.db.update(users).set(data).where(eq(users.id, id));
+  }
+
+  async claimTotpStep(userId: number, step: number): Promise<boolean> {
+    const updated = await this.db.update(users).set({ totpLastStep: step })
+      .where(and(eq(users.id, userId), or(isNull(users.totpLastStep), lt(users.totpLastStep, step))))
+      .returning({ id: users.id });
+    return updated.length > 0;
+  }
+
+  async consumeRecoveryCode(userId: number, codeHash: string): Promise<boolean> {
+    const updated = await this.db.update(users)
+      .set({ totpRecoveryCodes: sql`${users.totpRecoveryCodes} - ${codeHash}::text` })
+      .where(and(eq(users.id, userId), sql`${users.totpRecoveryCodes} @> ${JSON.stringify([codeHash])}::jsonb`))
+      .returning({ id: users.id });
+    return updated.length > 0;
+  }
+
+  async getUsersWithTotpAfter(afterId: number, limit: number): Promise<User[]> {
+    return this.db.select().from(users)
+      .where(and(gt(users.id, afterId), sql`${users.encryptedTotpSecret} is not null`))
+      .orderBy(users.id).limit(limit);
+  }
+
+  async replaceUserTotpSecret(id: number, expected: string, encryptedTotpSecret: string): Promise<boolean> {
+    const updated = await this.db.update(users).set({ encryptedTotpSecret })
+      .where(and(eq(users.id, id), eq(users.encryptedTotpSecret, expected)))
+      .returning({ id: users.id });
+    return updated.length > 0;
   }
 
   async createBot(data: InsertBot): Promise<Bot> {
-    const [bot] = await db.insert(bots).values(data).returning();
+    const [bot] = await this.db.insert(bots).values(data).returning();
     return bot;
   }
 
+  async createApiToken(data: Omit<ApiToken, "id" | "lastUsedAt" | "revokedAt" | "createdAt">): Promise<ApiToken> {
+    const [token] = await this.db.insert(apiTokens).values(data).returning();
+    return token;
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const [token] = await this.db.select().from(apiTokens).where(eq(apiTokens.tokenHash, tokenHash));
+    return token;
+  }
+
+  async getApiTokensByUser(userId: number): Promise<ApiToken[]> {
+    return this.db.select().from(apiTokens).where(eq(apiTokens.userId, userId)).orderBy(desc(apiTokens.createdAt));
+  }
+
+  async touchApiToken(id: number, at: Date): Promise<void> {
+    await this.db.update(apiTokens).set({ lastUsedAt: at }).where(eq(apiTokens.id, id));
+  }
+
+  async revokeApiToken(userId: number, id: number): Promise<ApiToken | undefined> {
+    const [token] = await this.db.update(apiTokens).set({ revokedAt: new Date() })
+      .where(and(eq(apiTokens.id, id), eq(apiTokens.userId, userId), isNull(apiTokens.revokedAt)))
+      .returning();
+    return token;
+  }
+
+  async createSession(data: Pick<Session, "id" | "userId" | "refreshTokenHash" | "userAgent" | "ip" | "expiresAt">): Promise<Session> {
+    const [session] = await this.db.insert(sessions).values(data).returning();
+    return session;
+  }
+
+  async getSession(id: string): Promise<Session | undefined> {
+    const [session] = await this.db.select().from(sessions).where(eq(sessions.id, id));
+    return session;
+  }
+
+  async getActiveSessionsByUser(userId: number): Promise<Session[]> {
+    return this.db.select().from(sessions)
+      .where(and(eq(sessions.userId, userId), isNull(sessions.revokedAt), gt(sessions.expiresAt, new Date())))
+      .orderBy(desc(sessions.lastUsedAt));
+  }
+
+  async rotateSessionRefreshToken(
+    id: string,
+    expectedHash: string,
+    data: Pick<Session, "refreshTokenHash" | "userAgent" | "ip" | "expiresAt">,
+  ): Promise<Session | undefined> {
+    const [session] = await this.db.update(sessions).set({ ...data, lastUsedAt: new Date() })
+      .where(and(
+        eq(sessions.id, id),
+        eq(sessions.refreshTokenHash, expectedHash),
+        isNull(sessions.revokedAt),
+        gt(sessions.expiresAt, new Date()),
+      ))
+      .returning();
+    return session;
+  }
+
+  async revokeSession(id: string, reason: string, userId?: number): Promise<Session | undefined> {
+    const conditions = [eq(sessions.id, id), isNull(sessions.revokedAt)];
+    if (userId !== undefined) conditions.push(eq(sessions.userId, userId));
+    const [session] = await this.db.update(sessions).set({ revokedAt: new Date(), revokedReason: reason })
+      .where(and(...conditions))
+      .returning();
+    return session;
+  }
+
+  async revokeUserSessions(userId: number, reason: string, exceptId?: string): Promise<number> {
+    const conditions = [eq(sessions.userId, userId), isNull(sessions.revokedAt)];
+    if (exceptId) conditions.push(ne(sessions.id, exceptId));
+    const revoked = await this.db.update(sessions).set({ revokedAt: new Date(), revokedReason: reason })
+      .where(and(...conditions))
+      .returning({ id: sessions.id });
+    return revoked.length;
+  }
+
+  async elevateSession(id: string, until: Date): Promise<void> {
+    await this.db.update(sessions).set({ elevatedUntil: until }).where(eq(sessions.id, id));
+  }
+
+  async createWebhookEndpoint(
+    data: Pick<WebhookEndpoint, "userId" | "url" | "description" | "encryptedSecret" | "events" | "botIds">,
+  ): Promise<WebhookEndpoint> {
+    const [endpoint] = await this.db.insert(webhookEndpoints).values(data).returning();
+    return endpoint;
+  }
+
+  async getWebhookEndpoint(id: number): Promise<WebhookEndpoint | undefined> {
+    const [endpoint] = await this.db.select().from(webhookEndpoints).where(eq(webhookEndpoints.id, id));
+    return endpoint;
+  }
+
+  async getWebhookEndpointsByUser(userId: number): Promise<WebhookEndpoint[]> {
+    return this.db.select().from(webhookEndpoints).where(eq(webhookEndpoints.userId, userId)).orderBy(desc(webhookEndpoints.createdAt));
+  }
+
+  // Everyone who can see the bot may subscribe to it: its creator and the
+  // members of the organization it is shared with.
+  async getWebhookEndpointsForEvent(bot: Bot, eventType: string): Promise<WebhookEndpoint[]> {
+    const userIds = [bot.userId];
+    if (bot.organizationId) {
+      const members = await this.db.select({ userId: organizationMembers.userId }).from(organizationMembers)
+        .where(eq(organizationMembers.organizationId, bot.organizationId));
+      userIds.push(...members.map(m => m.userId));
+    }
+    return this.db.select().from(webhookEndpoints).where(and(
+      inArray(webhookEndpoints.userId, userIds),
+      eq(webhookEndpoints.active, true),
+      sql`${webhookEndpoints.events} @> ${JSON.stringify([eventType])}::jsonb`,
+      or(isNull(webhookEndpoints.botIds), sql`${webhookEndpoints.botIds} @> ${JSON.stringify([bot.id])}::jsonb`),
+    ));
+  }
+
+  async updateWebhookEndpoint(id: number, data: Partial<WebhookEndpoint>): Promise<WebhookEndpoint | undefined> {
+    const [endpoint] = await this.db.update(webhookEndpoints).set(data).where(eq(webhookEndpoints.id, id)).returning();
+    return endpoint;
+  }
+
+  async deleteWebhookEndpoint(userId: number, id: number): Promise<boolean> {
+    const deleted = await this.db.delete(webhookEndpoints)
+      .where(and(eq(webhookEndpoints.id, id), eq(webhookEndpoints.userId, userId)))
+      .returning({ id: webhookEndpoints.id });
+    return deleted.length > 0;
+  }
+
+  async getWebhookEndpointsAfter(afterId: number, limit: number): Promise<WebhookEndpoint[]> {
+    return this.db.select().from(webhookEndpoints).where(gt(webhookEndpoints.id, afterId)).orderBy(webhookEndpoints.id).limit(limit);
+  }
+
+  async replaceWebhookSecret(id: number, expected: string, encryptedSecret: string): Promise<boolean> {
+    const updated = await this.db.update(webhookEndpoints).set({ encryptedSecret })
+      .where(and(eq(webhookEndpoints.id, id), eq(webhookEndpoints.encryptedSecret, expected)))
+      .returning({ id: webhookEndpoints.id });
+    return updated.length > 0;
+  }
+
+  async createWebhookDelivery(
+    data: Pick<WebhookDelivery, "endpointId" | "eventId" | "eventType" | "botId" | "payload">,
+  ): Promise<WebhookDelivery> {
+    const [delivery] = await this.db.insert(webhookDeliveries).values(data).returning();
+    return delivery;
+  }
+
+  async getWebhookDelivery(id: number): Promise<WebhookDelivery | undefined> {
+    const [delivery] = await this.db.select().from(webhookDeliveries).where(eq(webhookDeliveries.id, id));
+    return delivery;
+  }
+
+  async getWebhookDeliveries(endpointId: number, limit = 50): Promise<WebhookDelivery[]> {
+    return this.db.select().from(webhookDeliveries).where(eq(webhookDeliveries.endpointId, endpointId))
+      .orderBy(desc(webhookDeliveries.createdAt)).limit(limit);
+  }
+
+  // Rows left "sending" by a crashed process are picked up again once stale.
+  async getDueWebhookDeliveries(now: Date, staleBefore: Date, limit: number): Promise<WebhookDelivery[]> {
+    return this.db.select().from(webhookDeliveries).where(or(
+      and(eq(webhookDeliveries.status, "pending"), lte(webhookDeliveries.nextAttemptAt, now)),
+      and(eq(webhookDeliveries.status, "sending"), lt(webhookDeliveries.lastAttemptAt, staleBefore)),
+    )).orderBy(webhookDeliveries.nextAttemptAt).limit(limit);
+  }
+
+  async transitionWebhookDelivery(id: number, fromStatus: string, data: Partial<WebhookDelivery>): Promise<WebhookDelivery | undefined> {
+    const [delivery] = await this.db.update(webhookDeliveries).set(data)
+      .where(and(eq(webhookDeliveries.id, id), eq(webhookDeliveries.status, fromStatus)))
+      .returning();
+    return delivery;
+  }
+
+  async createOrganization(name: string, ownerId: number): Promise<Organization> {
+    return this.db.transaction(async (tx) => {
+      const [organization] = await tx.insert(organizations).values({ name }).returning();
+      await tx.insert(organizationMembers).values({ organizationId: organization.id, userId: ownerId, role: "owner" });
+      return organization;
+    });
+  }
+
+  async getOrganization(id: number): Promise<Organization | undefined> {
+    const [organization] = await this.db.select().from(organizations).where(eq(organizations.id, id));
+    return organization;
+  }
+
+  async getOrganizationsByUser(userId: number): Promise<(Organization & { role: string })[]> {
+    const rows = await this.db.select({ organization: organizations, role: organizationMembers.role })
+      .from(organizationMembers)
+      .innerJoin(organizations, eq(organizations.id, organizationMembers.organizationId))
+      .where(eq(organizationMembers.userId, userId))
+      .orderBy(organizations.name);
+    return rows.map(r => ({ ...r.organization, role: r.role }));
+  }
+
+  async getOrganizationMember(organizationId: number, userId: number): Promise<OrganizationMember | undefined> {
+    const [member] = await this.db.select().from(organizationMembers).where(and(
+      eq(organizationMembers.organizationId, organizationId),
+      eq(organizationMembers.userId, userId),
+    ));
+    return member;
+  }
+
+  async getOrganizationMembers(organizationId: number): Promise<(OrganizationMember & { username: string })[]> {
+    const rows = await this.db.select({ member: organizationMembers, username: users.username })
+      .from(organizationMembers)
+      .innerJoin(users, eq(users.id, organizationMembers.userId))
+      .where(eq(organizationMembers.organizationId, organizationId))
+      .orderBy(organizationMembers.createdAt);
+    return rows.map(r => ({ ...r.member, username: r.username }));
+  }
+
+  async addOrganizationMember(organizationId: number, userId: number, role: string): Promise<OrganizationMember | undefined> {
+    const [member] = await this.db.insert(organizationMembers).values({ organizationId, userId, role }).onConflictDoNothing().returning();
+    return member;
+  }
+
+  async updateOrganizationMemberRole(organizationId: number, userId: number, role: string): Promise<OrganizationMember | undefined> {
+    const [member] = await this.db.update(organizationMembers).set({ role }).where(and(
+      eq(organizationMembers.organizationId, organizationId),
+      eq(organizationMembers.userId, userId),
+    )).returning();
+    return member;
+  }
+
+  async removeOrganizationMember(organizationId: number, userId: number): Promise<OrganizationMember | undefined> {
+    const [member] = await this.db.delete(organizationMembers).where(and(
+      eq(organizationMembers.organizationId, organizationId),
+      eq(organizationMembers.userId, userId),
+    )).returning();
+    return member;
+  }
+
+  async countOrganizationOwners(organizationId: number): Promise<number> {
+    const [row] = await this.db.select({ count: sql<number>`count(*)::int` }).from(organizationMembers).where(and(
+      eq(organizationMembers.organizationId, organizationId),
+      eq(organizationMembers.role, "owner"),
+    ));
+    return row.count;
+  }
+
+  /** Bots the user created plus bots shared with any organization they belong to. */
+  private accessibleBots(userId: number) {
+    return or(
+      eq(bots.userId, userId),
+      inArray(bots.organizationId, this.db.select({ id: organizationMembers.organizationId }).from(organizationMembers).where(eq(organizationMembers.userId, userId))),
+    );
+  }
+
   async getBotsByUser(userId: number): Promise<Bot[]> {
-    return db.select().from(bots).where(eq(bots.userId, userId)).orderBy(desc(bots.createdAt));
+    return this.db.select().from(bots).where(eq(bots.userId, userId)).orderBy(desc(bots.createdAt));
+  }
+
+  async countBotsByUser(userId: number): Promise<number> {
+    const [row] = await this.db.select({ count: sql<number>`count(*)::int` }).from(bots).where(eq(bots.userId, userId));
+    return row.count;
   }
 
-  async getBotsByUserWithDetails(userId: number): Promise<(Bot & { walletAddress: string | null; xUsername: string | null; xProfileImageUrl: string | null; solBalance: string })[]> {
-    const userBots = await db.select().from(bots).where(eq(bots.userId, userId)).orderBy(desc(bots.createdAt));
+  async getBotsByUserWithDetails(userId: number): Promise<(Bot & { walletAddress: string | null; walletChain: string | null; xUsername: string | null; xProfileImageUrl: string | null; solBalance: string })[]> {
+    const userBots = await this.db.select().from(bots).where(this.accessibleBots(userId)).orderBy(desc(bots.createdAt));
     if (userBots.length === 0) return [];
 
     const botIds = userBots.map(b => b.id);
-    const wallets = await db.select({ botId: botWallets.botId, publicAddress: botWallets.publicAddress }).from(botWallets).where(inArray(botWallets.botId, botIds));
-    const walletMap = Object.fromEntries(wallets.map(w => [w.botId, w.publicAddress]));
-    const xAccounts = await db.select({ botId: botXAccounts.botId, xUsername: botXAccounts.xUsername, xProfileImageUrl: botXAccounts.xProfileImageUrl }).from(botXAccounts).where(inArray(botXAccounts.botId, botIds));
+    const wallets = await this.db.select({ botId: botWallets.botId, publicAddress: botWallets.publicAddress, chain: botWallets.chain }).from(botWallets).where(inArray(botWallets.botId, botIds));
+    const walletMap = Object.fromEntries(wallets.map(w => [w.botId, w]));
+    const xAccounts = await this.db.select({ botId: botXAccounts.botId, xUsername: botXAccounts.xUsername, xProfileImageUrl: botXAccounts.xProfileImageUrl }).from(botXAccounts).where(inArray(botXAccounts.botId, botIds));
     const xMap = Object.fromEntries(xAccounts.map(x => [x.botId, { xUsername: x.xUsername, xProfileImageUrl: x.xProfileImageUrl }]));
 
     return userBots.map(bot => ({
       ...bot,
-      walletAddress: walletMap[bot.id] || null,
+      walletAddress: walletMap[bot.id]?.publicAddress || null,
+      walletChain: walletMap[bot.id]?.chain || null,
       xUsername: xMap[bot.id]?.xUsername || null,
       xProfileImageUrl: xMap[bot.id]?.xProfileImageUrl || null,
       solBalance: "0.000000000",
@@ -121,31 +575,64 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getBot(id: number): Promise<Bot | undefined> {
-    const [bot] = await db.select().from(bots).where(eq(bots.id, id));
+    const [bot] = await this.db.select().from(bots).where(eq(bots.id, id));
     return bot;
   }
 
   async updateBot(id: number, data: Partial<Bot>): Promise<Bot | undefined> {
-    const [bot] = await db.update(bots).set(data).where(eq(bots.id, id)).returning();
+    const [bot] = await this.db.update(bots).set(data).where(eq(bots.id, id)).returning();
+    if (bot && data.status === "paused") botEvents.botPaused(bot);
     return bot;
   }
 
   async deleteBot(id: number): Promise<void> {
-    await db.delete(bots).where(eq(bots.id, id));
+    await this.db.delete(bots).where(eq(bots.id, id));
+  }
+
+  async getBotsDueForPost(now: Date): Promise<Bot[]> {
+    return this.db.select().from(bots).where(and(
+      eq(bots.status, "active"),
+      sql`(${bots.lastPostAt} IS NULL OR ${bots.lastPostAt} <= ${now}::timestamp - make_interval(mins => coalesce(${bots.postingIntervalMinutes}, 120)))`,
+    )).orderBy(sql`${bots.lastPostAt} ASC NULLS FIRST`);
+  }
+
+  async getBotsByStatus(statuses: string[]): Promise<Bot[]> {
+    return this.db.select().from(bots).where(inArray(bots.status, statuses));
   }
 
   async getBotWallet(botId: number): Promise<BotWallet | undefined> {
-    const [wallet] = await db.select().from(botWallets).where(eq(botWallets.botId, botId));
+    const [wallet] = await this.db.select().from(botWallets).where(eq(botWallets.botId, botId));
+    return wallet;
+  }
+
+  async createBotWallet(data: { botId: number; chain?: string; publicAddress: string; encryptedPrivateKey: string }): Promise<BotWallet> {
+    const [wallet] = await this.db.insert(botWallets).values(data).returning();
+    return wallet;
+  }
+
+  async getBotWalletByAddress(publicAddress: string): Promise<BotWallet | undefined> {
+    const [wallet] = await this.db.select().from(botWallets).where(eq(botWallets.publicAddress, publicAddress));
     return wallet;
   }
 
-  async createBotWallet(data: { botId: number; publicAddress: string; encryptedPrivateKey: string }): Promise<BotWallet> {
-    const [wallet] = await db.insert(botWallets).values(data).returning();
+  async replaceBotWallet(botId: number, data: { chain: string; publicAddress: string; encryptedPrivateKey: string }): Promise<BotWallet | undefined> {
+    const [wallet] = await this.db.update(botWallets).set(data).where(eq(botWallets.botId, botId)).returning();
     return wallet;
   }
 
+  async getBotWalletsAfter(afterId: number, limit: number): Promise<BotWallet[]> {
+    return this.db.select().from(botWallets).where(gt(botWallets.id, afterId)).orderBy(botWallets.id).limit(limit);
+  }
+
+  async replaceBotWalletKey(id: number, expected: string, encryptedPrivateKey: string): Promise<boolean> {
+    const updated = await this.db.update(botWallets).set({ encryptedPrivateKey })
+      .where(and(eq(botWallets.id, id), eq(botWallets.encryptedPrivateKey, expected)))
+      .returning({ id: botWallets.id });
+    return updated.length > 0;
+  }
+
   async getBotXAccount(botId: number): Promise<BotXAccount | undefined> {
-    const [account] = await db.select().from(botXAccounts).where(eq(botXAccounts.botId, botId));
+    const [account] = await this.db.select().from(botXAccounts).where(eq(botXAccounts.botId, botId));
     return account;
   }
 
@@ -160,7 +647,7 @@ export class DatabaseStorage implements IStorage {
   }): Promise<BotXAccount> {
     const existing = await this.getBotXAccount(data.botId);
     if (existing) {
-      const [updated] = await db.update(botXAccounts).set({
+      const [updated] = await this.db.update(botXAccounts).set({
         xUserId: data.xUserId,
         xUsername: data.xUsername,
         xProfileImageUrl: data.xProfileImageUrl,
@@ -170,94 +657,371 @@ export class DatabaseStorage implements IStorage {
       }).where(eq(botXAccounts.botId, data.botId)).returning();
       return updated;
     }
-    const [account] = await db.insert(botXAccounts).values(data).returning();
+    const [account] = await this.db.insert(botXAccounts).values(data).returning();
     return account;
   }
 
+  async updateBotXAccountTokens(botId: number, data: { encryptedAccessToken: string; encryptedRefreshToken: string; tokenExpiresAt: Date }): Promise<void> {
+    await this.db.update(botXAccounts).set(data).where(eq(botXAccounts.botId, botId));
+  }
+
   async deleteBotXAccount(botId: number): Promise<void> {
-    await db.delete(botXAccounts).where(eq(botXAccounts.botId, botId));
+    await this.db.delete(botXAccounts).where(eq(botXAccounts.botId, botId));
+  }
+
+  async getBotXAccountsAfter(afterId: number, limit: number): Promise<BotXAccount[]> {
+    return this.db.select().from(botXAccounts).where(gt(botXAccounts.id, afterId)).orderBy(botXAccounts.id).limit(limit);
+  }
+
+  async replaceBotXAccountTokens(
+    id: number,
+    expected: { encryptedAccessToken: string; encryptedRefreshToken: string },
+    next: { encryptedAccessToken: string; encryptedRefreshToken: string },
+  ): Promise<boolean> {
+    const updated = await this.db.update(botXAccounts).set(next).where(and(
+      eq(botXAccounts.id, id),
+      eq(botXAccounts.encryptedAccessToken, expected.encryptedAccessToken),
+      eq(botXAccounts.encryptedRefreshToken, expected.encryptedRefreshToken),
+    )).returning({ id: botXAccounts.id });
+    return updated.length > 0;
+  }
+
+  async createXOauthState(data: { nonce: string; userId: number; botId: number; encryptedCodeVerifier: string; expiresAt: Date }): Promise<XOauthState> {
+    const [state] = await this.db.insert(xOauthStates).values(data).returning();
+    return state;
+  }
+
+  async consumeXOauthState(nonce: string): Promise<XOauthState | undefined> {
+    const [state] = await this.db.delete(xOauthStates).where(eq(xOauthStates.nonce, nonce)).returning();
+    return state;
+  }
+
+  async deleteExpiredXOauthStates(now: Date): Promise<void> {
+    await this.db.delete(xOauthStates).where(lt(xOauthStates.expiresAt, now));
   }
 
   async getTradesByBot(botId: number): Promise<Trade[]> {
-    return db.select().from(trades).where(eq(trades.botId, botId)).orderBy(desc(trades.createdAt));
+    return this.db.select().from(trades).where(eq(trades.botId, botId)).orderBy(desc(trades.createdAt));
+  }
+
+  async getTrade(id: number): Promise<Trade | undefined> {
+    const [trade] = await this.db.select().from(trades).where(eq(trades.id, id));
+    return trade;
   }
 
   async createTrade(data: InsertTrade): Promise<Trade> {
-    const [trade] = await db.insert(trades).values(data).returning();
+    const [trade] = await this.db.insert(trades).values(data).returning();
+    botEvents.tradeStatusChanged(trade);
+    publishActivity({ kind: "trade", row: trade });
     return trade;
   }
 
   async updateTrade(id: number, data: Partial<Trade>): Promise<void> {
-    await db.update(trades).set(data).where(eq(trades.id, id));
+    const [trade] = await this.db.update(trades).set(data).where(eq(trades.id, id)).returning();
+    if (trade && data.status) {
+      botEvents.tradeStatusChanged(trade);
+      publishActivity({ kind: "trade", row: trade });
+    }
+  }
+
+  async getTradesByStatus(status: string, limit = 20): Promise<Trade[]> {
+    return this.db.select().from(trades).where(eq(trades.status, status)).orderBy(trades.createdAt).limit(limit);
+  }
+
+  async transitionTrade(id: number, fromStatus: string, data: Partial<Trade>): Promise<Trade | undefined> {
+    const [trade] = await this.db.update(trades).set(data).where(and(eq(trades.id, id), eq(trades.status, fromStatus))).returning();
+    if (trade && data.status) {
+      botEvents.tradeStatusChanged(trade);
+      publishActivity({ kind: "trade", row: trade });
+    }
+    return trade;
   }
 
   async getWithdrawalsByBot(botId: number): Promise<Withdrawal[]> {
-    return db.select().from(withdrawals).where(eq(withdrawals.botId, botId)).orderBy(desc(withdrawals.createdAt));
+    return this.db.select().from(withdrawals).where(eq(withdrawals.botId, botId)).orderBy(desc(withdrawals.createdAt));
+  }
+
+  async getWithdrawal(id: number): Promise<Withdrawal | undefined> {
+    const [withdrawal] = await this.db.select().from(withdrawals).where(eq(withdrawals.id, id));
+    return withdrawal;
   }
 
   async createWithdrawal(data: InsertWithdrawal): Promise<Withdrawal> {
-    const [withdrawal] = await db.insert(withdrawals).values(data).returning();
+    const [withdrawal] = await this.db.insert(withdrawals).values(data).returning();
+    botEvents.withdrawalStatusChanged(withdrawal);
+    return withdrawal;
+  }
+
+  async updateWithdrawal(id: number, data: Partial<Withdrawal>): Promise<void> {
+    const [withdrawal] = await this.db.update(withdrawals).set(data).where(eq(withdrawals.id, id)).returning();
+    if (withdrawal && data.status) botEvents.withdrawalStatusChanged(withdrawal);
+  }
+
+  async hasInFlightTransactions(botId: number): Promise<boolean> {
+    const inFlight = ["pending_approval", "pending", "submitted"];
+    const [trade] = await this.db.select({ id: trades.id }).from(trades)
+      .where(and(eq(trades.botId, botId), inArray(trades.status, inFlight))).limit(1);
+    if (trade) return true;
+    const [withdrawal] = await this.db.select({ id: withdrawals.id }).from(withdrawals)
+      .where(and(eq(withdrawals.botId, botId), inArray(withdrawals.status, inFlight))).limit(1);
+    return !!withdrawal;
+  }
+
+  async getWithdrawalsByStatus(status: string, limit = 20): Promise<Withdrawal[]> {
+    return this.db.select().from(withdrawals).where(eq(withdrawals.status, status)).orderBy(withdrawals.createdAt).limit(limit);
+  }
+
+  async transitionWithdrawal(id: number, fromStatus: string, data: Partial<Withdrawal>): Promise<Withdrawal | undefined> {
+    const [withdrawal] = await this.db.update(withdrawals).set(data).where(and(eq(withdrawals.id, id), eq(withdrawals.status, fromStatus))).returning();
+    if (withdrawal && data.status) botEvents.withdrawalStatusChanged(withdrawal);
     return withdrawal;
   }
 
+  // Rows awaiting approval or already dead do not count towards limits.
+  async sumTradeSpendSince(botId: number, since: Date): Promise<number> {
+    const [row] = await this.db.select({ total: sql<string>`coalesce(sum(${trades.amountSol}), 0)` }).from(trades).where(and(
+      eq(trades.botId, botId),
+      eq(trades.tradeType, "buy"),
+      inArray(trades.status, ["pending", "submitted", "completed"]),
+      gte(trades.createdAt, since),
+    ));
+    return parseFloat(row.total);
+  }
+
+  // Native-coin withdrawals on `chain` only; amounts on different chains can't be added up.
+  async sumWithdrawalsSince(botId: number, since: Date, chain: string): Promise<number> {
+    const [row] = await this.db.select({ total: sql<string>`coalesce(sum(${withdrawals.amountSol}), 0)` }).from(withdrawals).where(and(
+      eq(withdrawals.botId, botId),
+      sql`coalesce(${withdrawals.chain}, 'solana') = ${chain}`,
+      isNull(withdrawals.tokenAddress),
+      inArray(withdrawals.status, ["pending", "submitted", "completed"]),
+      gte(withdrawals.createdAt, since),
+    ));
+    return parseFloat(row.total);
+  }
+
+  async sumTokenWithdrawalsSince(botId: number, since: Date, tokenAddress: string): Promise<number> {
+    const [row] = await this.db.select({ total: sql<string>`coalesce(sum(${withdrawals.amountSol}), 0)` }).from(withdrawals).where(and(
+      eq(withdrawals.botId, botId),
+      eq(withdrawals.tokenAddress, tokenAddress),
+      inArray(withdrawals.status, ["pending", "submitted", "completed"]),
+      gte(withdrawals.createdAt, since),
+    ));
+    return parseFloat(row.total);
+  }
+
+  async getWithdrawalAddresses(userId: number): Promise<WithdrawalAddress[]> {
+    return this.db.select().from(withdrawalAddresses).where(eq(withdrawalAddresses.userId, userId)).orderBy(desc(withdrawalAddresses.createdAt));
+  }
+
+  async getWithdrawalAddress(userId: number, address: string): Promise<WithdrawalAddress | undefined> {
+    const [entry] = await this.db.select().from(withdrawalAddresses)
+      .where(and(eq(withdrawalAddresses.userId, userId), eq(withdrawalAddresses.address, address)));
+    return entry;
+  }
+
+  async createWithdrawalAddress(data: { userId: number; label: string; address: string; chain?: string; activatesAt: Date }): Promise<WithdrawalAddress> {
+    const [entry] = await this.db.insert(withdrawalAddresses).values(data).returning();
+    return entry;
+  }
+
+  async deleteWithdrawalAddress(userId: number, id: number): Promise<WithdrawalAddress | undefined> {
+    const [entry] = await this.db.delete(withdrawalAddresses)
+      .where(and(eq(withdrawalAddresses.id, id), eq(withdrawalAddresses.userId, userId))).returning();
+    return entry;
+  }
+
+  async withBotLock<T>(botId: number, fn: (locked: IStorage) => Promise<T>): Promise<T> {
+    return this.db.transaction(async (tx) => {
+      await tx.execute(sql`select pg_advisory_xact_lock(${BOT_LOCK_NAMESPACE}, ${botId})`);
+      return fn(new DatabaseStorage(tx));
+    });
+  }
+
+  async getRiskPolicy(botId: number): Promise<BotRiskPolicy | undefined> {
+    const [policy] = await this.db.select().from(botRiskPolicies).where(eq(botRiskPolicies.botId, botId));
+    return policy;
+  }
+
+  async upsertRiskPolicy(botId: number, data: Omit<BotRiskPolicy, "id" | "botId" | "updatedAt">): Promise<BotRiskPolicy> {
+    const [policy] = await this.db.insert(botRiskPolicies).values({ ...data, botId })
+      .onConflictDoUpdate({ target: botRiskPolicies.botId, set: { ...data, updatedAt: new Date() } })
+      .returning();
+    return policy;
+  }
+
+  // One timeline for auto, manual and reply posts: published posts by when they
+  // went out, queued ones by when they are due.
   async getPostsByBot(botId: number): Promise<BotPost[]> {
-    return db.select().from(botPosts).where(eq(botPosts.botId, botId)).orderBy(desc(botPosts.createdAt));
+    return this.db.select().from(botPosts).where(eq(botPosts.botId, botId))
+      .orderBy(desc(sql`coalesce(${botPosts.postedAt}, ${botPosts.scheduledFor}, ${botPosts.createdAt})`));
+  }
+
+  async getPost(id: number): Promise<BotPost | undefined> {
+    const [post] = await this.db.select().from(botPosts).where(eq(botPosts.id, id));
+    return post;
+  }
+
+  async getQueuedPostsByBot(botId: number): Promise<BotPost[]> {
+    return this.db.select().from(botPosts)
+      .where(and(eq(botPosts.botId, botId), eq(botPosts.status, "queued")))
+      .orderBy(botPosts.scheduledFor);
+  }
+
+  async getDueQueuedPosts(now: Date): Promise<BotPost[]> {
+    return this.db.select().from(botPosts)
+      .where(and(eq(botPosts.status, "queued"), lte(botPosts.scheduledFor, now)))
+      .orderBy(botPosts.scheduledFor);
+  }
+
+  async createPost(data: InsertBotPost): Promise<BotPost> {
+    const [post] = await this.db.insert(botPosts).values(data).returning();
+    publishActivity({ kind: "post", row: post });
+    return post;
+  }
+
+  async updatePost(id: number, data: Partial<BotPost>): Promise<void> {
+    const [post] = await this.db.update(botPosts).set(data).where(eq(botPosts.id, id)).returning();
+    if (post && data.status) publishActivity({ kind: "post", row: post });
+    if (post && data.status === "posted") botEvents.postPublished(post);
+  }
+
+  async transitionPost(id: number, fromStatus: string, data: Partial<BotPost>): Promise<BotPost | undefined> {
+    const [post] = await this.db.update(botPosts).set(data).where(and(eq(botPosts.id, id), eq(botPosts.status, fromStatus))).returning();
+    if (post && data.status) publishActivity({ kind: "post", row: post });
+    return post;
   }
 
   async getMentionsByBot(botId: number): Promise<BotMention[]> {
-    return db.select().from(botMentions).where(eq(botMentions.botId, botId)).orderBy(desc(botMentions.createdAt));
+    return this.db.select().from(botMentions).where(eq(botMentions.botId, botId)).orderBy(desc(botMentions.createdAt));
+  }
+
+  async getMentionByTweetId(mentionTweetId: string): Promise<BotMention | undefined> {
+    const [mention] = await this.db.select().from(botMentions).where(eq(botMentions.mentionTweetId, mentionTweetId));
+    return mention;
+  }
+
+  async createMention(data: InsertBotMention): Promise<BotMention | undefined> {
+    const [mention] = await this.db.insert(botMentions).values(data).onConflictDoNothing({ target: botMentions.mentionTweetId }).returning();
+    if (mention) botEvents.mentionReceived(mention);
+    return mention;
+  }
+
+  async updateMention(id: number, data: Partial<BotMention>): Promise<void> {
+    await this.db.update(botMentions).set(data).where(eq(botMentions.id, id));
+  }
+
+  async getMention(id: number): Promise<BotMention | undefined> {
+    const [mention] = await this.db.select().from(botMentions).where(eq(botMentions.id, id));
+    return mention;
+  }
+
+  async transitionMention(id: number, fromReplyStatus: string, data: Partial<BotMention>): Promise<BotMention | undefined> {
+    const [mention] = await this.db.update(botMentions).set(data).where(and(eq(botMentions.id, id), eq(botMentions.replyStatus, fromReplyStatus))).returning();
+    return mention;
+  }
+
+  async getPendingApprovals(botId: number): Promise<PendingApprovals> {
+    const [posts, replies, pendingTrades, pendingWithdrawals] = await Promise.all([
+      this.db.select().from(botPosts).where(and(eq(botPosts.botId, botId), eq(botPosts.status, "pending_approval"))).orderBy(botPosts.createdAt),
+      this.db.select().from(botMentions).where(and(eq(botMentions.botId, botId), eq(botMentions.replyStatus, "pending_approval"))).orderBy(botMentions.createdAt),
+      this.db.select().from(trades).where(and(eq(trades.botId, botId), eq(trades.status, "pending_approval"))).orderBy(trades.createdAt),
+      this.db.select().from(withdrawals).where(and(eq(withdrawals.botId, botId), eq(withdrawals.status, "pending_approval"))).orderBy(withdrawals.createdAt),
+    ]);
+    return { posts, replies, trades: pendingTrades, withdrawals: pendingWithdrawals };
+  }
+
+  async getBotIdsWithPendingApprovals(): Promise<number[]> {
+    const rows = await Promise.all([
+      this.db.selectDistinct({ botId: botPosts.botId }).from(botPosts).where(eq(botPosts.status, "pending_approval")),
+      this.db.selectDistinct({ botId: botMentions.botId }).from(botMentions).where(eq(botMentions.replyStatus, "pending_approval")),
+      this.db.selectDistinct({ botId: trades.botId }).from(trades).where(eq(trades.status, "pending_approval")),
+      this.db.selectDistinct({ botId: withdrawals.botId }).from(withdrawals).where(eq(withdrawals.status, "pending_approval")),
+    ]);
+    return Array.from(new Set(rows.flat().map(r => r.botId)));
+  }
+
+  async expirePendingApprovals(botId: number, cutoff: Date): Promise<PendingApprovals> {
+    const [posts, replies, expiredTrades, expiredWithdrawals] = await Promise.all([
+      this.db.update(botPosts).set({ status: "expired" })
+        .where(and(eq(botPosts.botId, botId), eq(botPosts.status, "pending_approval"), lt(botPosts.createdAt, cutoff))).returning(),
+      this.db.update(botMentions).set({ replyStatus: "expired", processedAt: new Date() })
+        .where(and(eq(botMentions.botId, botId), eq(botMentions.replyStatus, "pending_approval"), lt(botMentions.createdAt, cutoff))).returning(),
+      this.db.update(trades).set({ status: "expired" })
+        .where(and(eq(trades.botId, botId), eq(trades.status, "pending_approval"), lt(trades.createdAt, cutoff))).returning(),
+      this.db.update(withdrawals).set({ status: "expired" })
+        .where(and(eq(withdrawals.botId, botId), eq(withdrawals.status, "pending_approval"), lt(withdrawals.createdAt, cutoff))).returning(),
+    ]);
+    for (const post of posts) publishActivity({ kind: "post", row: post });
+    for (const trade of expiredTrades) {
+      botEvents.tradeStatusChanged(trade);
+      publishActivity({ kind: "trade", row: trade });
+    }
+    for (const withdrawal of expiredWithdrawals) botEvents.withdrawalStatusChanged(withdrawal);
+    return { posts, replies, trades: expiredTrades, withdrawals: expiredWithdrawals };
+  }
+
+  async recordLlmUsage(data: InsertLlmUsage): Promise<void> {
+    await this.db.insert(llmUsage).values(data);
   }
 
   async getAuditLogsByBot(botId: number): Promise<AuditLog[]> {
-    return db.select().from(auditLogs).where(eq(auditLogs.botId, botId)).orderBy(desc(auditLogs.createdAt));
+    return this.db.select().from(auditLogs).where(eq(auditLogs.botId, botId)).orderBy(desc(auditLogs.createdAt));
   }
 
-  async getRecentActivityByUser(userId: number, limit = 20): Promise<(AuditLog & { botName?: string })[]> {
-    const userBots = await db.select({ id: bots.id, botName: bots.botName }).from(bots).where(eq(bots.userId, userId));
-    if (userBots.length === 0) return [];
+  async getRecentActivityByUser(userId: number, limit = 20, allowBot?: (botId: number) => boolean): Promise<(AuditLog & { botName?: string })[]> {
+    const accessible = await this.db.select({ id: bots.id, botName: bots.botName }).from(bots).where(this.accessibleBots(userId));
+    const userBots = allowBot ? accessible.filter(b => allowBot(b.id)) : accessible;
     const botIds = userBots.map(b => b.id);
     const botNameMap: Record<number, string> = {};
     for (const b of userBots) botNameMap[b.id] = b.botName;
-    const logs = await db.select().from(auditLogs).where(inArray(auditLogs.botId, botIds)).orderBy(desc(auditLogs.createdAt)).limit(limit);
-    return logs.map(log => ({ ...log, botName: log.botId ? botNameMap[log.botId] || "Unknown" : "Unknown" }));
+    // Account-level entries such as address book changes have no bot attached.
+    const accountLogs = allowBot ? undefined : and(eq(auditLogs.userId, userId), isNull(auditLogs.botId));
+    const botLogs = botIds.length > 0 ? inArray(auditLogs.botId, botIds) : undefined;
+    if (!botLogs && !accountLogs) return [];
+    const logs = await this.db.select().from(auditLogs)
+      .where(or(botLogs, accountLogs))
+      .orderBy(desc(auditLogs.createdAt)).limit(limit);
+    return logs.map(log => ({ ...log, botName: log.botId ? botNameMap[log.botId] || "Unknown" : "Account" }));
   }
 
-  async getAllBots(limit = 50): Promise<(Bot & { ownerUsername?: string; walletAddress?: string | null; xUsername?: string | null; xProfileImageUrl?: string | null })[]> {
-    const allBotsList = await db.select().from(bots).orderBy(desc(bots.createdAt)).limit(limit);
+  async getAllBots(limit = 50): Promise<(Bot & { ownerUsername?: string; walletAddress?: string | null; walletChain?: string | null; xUsername?: string | null; xProfileImageUrl?: string | null })[]> {
+    const allBotsList = await this.db.select().from(bots).orderBy(desc(bots.createdAt)).limit(limit);
     if (allBotsList.length === 0) return [];
 
     const userIds = Array.from(new Set(allBotsList.map(b => b.userId)));
-    const allUsers = await db.select({ id: users.id, username: users.username }).from(users).where(inArray(users.id, userIds));
+    const allUsers = await this.db.select({ id: users.id, username: users.username }).from(users).where(inArray(users.id, userIds));
     const userMap: Record<number, string> = {};
     for (const u of allUsers) userMap[u.id] = u.username;
 
     const botIds = allBotsList.map(b => b.id);
-    const wallets = await db.select({ botId: botWallets.botId, publicAddress: botWallets.publicAddress }).from(botWallets).where(inArray(botWallets.botId, botIds));
-    const walletMap: Record<number, string> = {};
-    for (const w of wallets) walletMap[w.botId] = w.publicAddress;
+    const wallets = await this.db.select({ botId: botWallets.botId, publicAddress: botWallets.publicAddress, chain: botWallets.chain }).from(botWallets).where(inArray(botWallets.botId, botIds));
+    const walletMap: Record<number, { publicAddress: string; chain: string | null }> = {};
+    for (const w of wallets) walletMap[w.botId] = w;
 
-    const xAccounts = await db.select({ botId: botXAccounts.botId, xUsername: botXAccounts.xUsername, xProfileImageUrl: botXAccounts.xProfileImageUrl }).from(botXAccounts).where(inArray(botXAccounts.botId, botIds));
+    const xAccounts = await this.db.select({ botId: botXAccounts.botId, xUsername: botXAccounts.xUsername, xProfileImageUrl: botXAccounts.xProfileImageUrl }).from(botXAccounts).where(inArray(botXAccounts.botId, botIds));
     const xMap: Record<number, { xUsername: string | null; xProfileImageUrl: string | null }> = {};
     for (const x of xAccounts) xMap[x.botId] = { xUsername: x.xUsername, xProfileImageUrl: x.xProfileImageUrl };
 
     return allBotsList.map(bot => ({
       ...bot,
       ownerUsername: userMap[bot.userId] || "Unknown",
-      walletAddress: walletMap[bot.id] || null,
+      walletAddress: walletMap[bot.id]?.publicAddress || null,
+      walletChain: walletMap[bot.id]?.chain || null,
       xUsername: xMap[bot.id]?.xUsername || null,
       xProfileImageUrl: xMap[bot.id]?.xProfileImageUrl || null,
     }));
   }
 
   async getGlobalActivity(limit = 30): Promise<(AuditLog & { botName?: string; ownerUsername?: string })[]> {
-    const logs = await db.select().from(auditLogs).orderBy(desc(auditLogs.createdAt)).limit(limit);
+    const logs = await this.db.select().from(auditLogs).orderBy(desc(auditLogs.createdAt)).limit(limit);
     if (logs.length === 0) return [];
 
     const botIds = Array.from(new Set(logs.map(l => l.botId).filter((id): id is number => id !== null)));
     const userIds = Array.from(new Set(logs.map(l => l.userId).filter((id): id is number => id !== null)));
 
-    const allBotsList = botIds.length > 0 ? await db.select({ id: bots.id, botName: bots.botName }).from(bots).where(inArray(bots.id, botIds)) : [];
-    const allUsers = userIds.length > 0 ? await db.select({ id: users.id, username: users.username }).from(users).where(inArray(users.id, userIds)) : [];
+    const allBotsList = botIds.length > 0 ? await this.db.select({ id: bots.id, botName: bots.botName }).from(bots).where(inArray(bots.id, botIds)) : [];
+    const allUsers = userIds.length > 0 ? await this.db.select({ id: users.id, username: users.username }).from(users).where(inArray(users.id, userIds)) : [];
 
     const botNameMap: Record<number, string> = {};
     for (const b of allBotsList) botNameMap[b.id] = b.botName;
@@ -273,9 +1037,9 @@ export class DatabaseStorage implements IStorage {
 
   async getCombinedActivity(limit = 30): Promise<CombinedActivityItem[]> {
     const [recentPosts, recentTrades, recentLogs] = await Promise.all([
-      db.select().from(botPosts).orderBy(desc(botPosts.createdAt)).limit(limit),
-      db.select().from(trades).orderBy(desc(trades.createdAt)).limit(limit),
-      db.select().from(auditLogs).orderBy(desc(auditLogs.createdAt)).limit(limit),
+      this.db.select().from(botPosts).orderBy(desc(botPosts.createdAt)).limit(limit),
+      this.db.select().from(trades).orderBy(desc(trades.createdAt)).limit(limit),
+      this.db.select().from(auditLogs).orderBy(desc(auditLogs.createdAt)).limit(limit),
     ]);
 
     const allBotIds = Array.from(new Set([
@@ -286,7 +1050,7 @@ export class DatabaseStorage implements IStorage {
 
     if (allBotIds.length === 0) return [];
 
-    const allBotsList = await db.select({
+    const allBotsList = await this.db.select({
       id: bots.id,
       botName: bots.botName,
       userId: bots.userId,
@@ -297,13 +1061,13 @@ export class DatabaseStorage implements IStorage {
 
     const userIds = Array.from(new Set(Object.values(botMap).map(b => b.userId)));
     const allUsers = userIds.length > 0
-      ? await db.select({ id: users.id, username: users.username }).from(users).where(inArray(users.id, userIds))
+      ? await this.db.select({ id: users.id, username: users.username }).from(users).where(inArray(users.id, userIds))
       : [];
     const userMap: Record<number, string> = {};
     for (const u of allUsers) userMap[u.id] = u.username;
 
     const xAccounts = allBotIds.length > 0
-      ? await db.select({ botId: botXAccounts.botId, xProfileImageUrl: botXAccounts.xProfileImageUrl }).from(botXAccounts).where(inArray(botXAccounts.botId, allBotIds))
+      ? await this.db.select({ botId: botXAccounts.botId, xProfileImageUrl: botXAccounts.xProfileImageUrl }).from(botXAccounts).where(inArray(botXAccounts.botId, allBotIds))
       : [];
     const pfpMap: Record<number, string | null> = {};
     for (const x of xAccounts) pfpMap[x.botId] = x.xProfileImageUrl;
@@ -312,47 +1076,29 @@ export class DatabaseStorage implements IStorage {
 
     for (const post of recentPosts) {
       const bot = botMap[post.botId];
-      items.push({
-        id: `tweet-${post.id}`,
-        type: "tweet",
-        action: post.postType === "reply" ? "reply_posted" : "tweet_posted",
-        botId: post.botId,
+      items.push(buildActivityItem({ kind: "post", row: post }, {
         botName: bot?.botName || "Unknown",
         ownerUsername: bot ? (userMap[bot.userId] || "Unknown") : "Unknown",
         botProfileImageUrl: pfpMap[post.botId] || null,
-        details: { content: post.content?.slice(0, 120), tweetId: post.tweetId, postType: post.postType, status: post.status },
-        createdAt: post.createdAt,
-      });
+      }));
     }
 
     for (const trade of recentTrades) {
       const bot = botMap[trade.botId];
-      items.push({
-        id: `trade-${trade.id}`,
-        type: "trade",
-        action: trade.tradeType === "buy" ? "token_bought" : "token_sold",
-        botId: trade.botId,
+      items.push(buildActivityItem({ kind: "trade", row: trade }, {
         botName: bot?.botName || "Unknown",
         ownerUsername: bot ? (userMap[bot.userId] || "Unknown") : "Unknown",
         botProfileImageUrl: pfpMap[trade.botId] || null,
-        details: { tokenMint: trade.tokenMint, tokenSymbol: trade.tokenSymbol, amountSol: trade.amountSol, amountTokens: trade.amountTokens, txHash: trade.txHash, status: trade.status, tradeType: trade.tradeType },
-        createdAt: trade.createdAt,
-      });
+      }));
     }
 
     for (const log of recentLogs) {
       const bot = log.botId ? botMap[log.botId] : null;
-      items.push({
-        id: `log-${log.id}`,
-        type: "system",
-        action: log.action,
-        botId: log.botId || 0,
+      items.push(buildActivityItem({ kind: "log", row: log }, {
         botName: bot?.botName || "System",
         ownerUsername: bot ? (userMap[bot.userId] || "Unknown") : (log.userId ? (userMap[log.userId] || "Unknown") : "System"),
         botProfileImageUrl: log.botId ? (pfpMap[log.botId] || null) : null,
-        details: log.details,
-        createdAt: log.createdAt,
-      });
+      }));
     }
 
     items.sort((a, b) => {
@@ -364,8 +1110,36 @@ export class DatabaseStorage implements IStorage {
     return items.slice(0, limit);
   }
 
+  async getBotActivityContext(botId: number): Promise<(ActivityContext & { viewerIds: number[] }) | undefined> {
+    const [row] = await this.db.select({
+      botName: bots.botName,
+      userId: bots.userId,
+      organizationId: bots.organizationId,
+      ownerUsername: users.username,
+      botProfileImageUrl: botXAccounts.xProfileImageUrl,
+    }).from(bots)
+      .innerJoin(users, eq(bots.userId, users.id))
+      .leftJoin(botXAccounts, eq(botXAccounts.botId, bots.id))
+      .where(eq(bots.id, botId));
+    if (!row) return undefined;
+
+    const viewerIds = [row.userId];
+    if (row.organizationId) {
+      const members = await this.db.select({ userId: organizationMembers.userId }).from(organizationMembers)
+        .where(eq(organizationMembers.organizationId, row.organizationId));
+      viewerIds.push(...members.map(m => m.userId).filter(id => id !== row.userId));
+    }
+    return {
+      botName: row.botName,
+      ownerUsername: row.ownerUsername,
+      botProfileImageUrl: row.botProfileImageUrl ?? null,
+      viewerIds,
+    };
+  }
+
   async createAuditLog(data: InsertAuditLog): Promise<AuditLog> {
-    const [log] = await db.insert(auditLogs).values(data).returning();
+    const [log] = await this.db.insert(auditLogs).values(data).returning();
+    publishActivity({ kind: "log", row: log });
     return log;
   }
 }
@@ -0,0 +1,142 @@
+import {
+  PublicKey, SystemProgram, TransactionMessage, VersionedTransaction,
+} from "@solana/web3.js";
+import { getConnection, getMintDecimals, solToLamports, lamportsToSol, NATIVE_SOL_MINT } from "./solana";
+
+export interface SwapRequest {
+  owner: PublicKey;
+  side: "buy" | "sell";
+  tokenMint: string;
+  amountSol?: number;
+  amountTokens?: number;
+  slippageBps: number;
+}
+
+export interface BuiltSwap {
+  transaction: VersionedTransaction;
+  lastValidBlockHeight: number;
+  expectedAmountSol: number | null;
+  expectedAmountTokens: number | null;
+}
+
+/**
+ * A DEX integration. Adapters only build the unsigned transaction; signing,
+ * sending and bookkeeping stay in the trade executor.
+ */
+export interface SwapAdapter {
+  readonly name: string;
+  buildSwap(request: SwapRequest): Promise<BuiltSwap>;
+}
+
+export class JupiterSwapAdapter implements SwapAdapter {
+  readonly name = "jupiter";
+
+  constructor(private readonly baseUrl = process.env.JUPITER_API_URL || "https://quote-api.jup.ag/v6") {}
+
+  async buildSwap(request: SwapRequest): Promise<BuiltSwap> {
+    const decimals = await getMintDecimals(request.tokenMint);
+    const isBuy = request.side === "buy";
+
+    let amount: number;
+    let swapMode: "ExactIn" | "ExactOut";
+    if (isBuy) {
+      if (request.amountSol === undefined) throw new Error("Buy orders need amountSol");
+      amount = solToLamports(request.amountSol);
+      swapMode = "ExactIn";
+    } else if (request.amountTokens !== undefined) {
+      amount = Math.round(request.amountTokens * Math.pow(10, decimals));
+      swapMode = "ExactIn";
+    } else if (request.amountSol !== undefined) {
+      amount = solToLamports(request.amountSol);
+      swapMode = "ExactOut";
+    } else {
+      throw new Error("Sell orders need amountTokens or amountSol");
+    }
+
+    const params = new URLSearchParams({
+      inputMint: isBuy ? NATIVE_SOL_MINT : request.tokenMint,
+      outputMint: isBuy ? request.tokenMint : NATIVE_SOL_MINT,
+      amount: amount.toString(),
+      slippageBps: request.slippageBps.toString(),
+      swapMode,
+    });
+    const quoteResponse = await fetch(`${this.baseUrl}/quote?${params.toString()}`);
+    if (!quoteResponse.ok) {
+      throw new Error(`Jupiter quote failed with ${quoteResponse.status}: ${(await quoteResponse.text()).slice(0, 200)}`);
+    }
+    const quote = await quoteResponse.json();
+
+    const swapResponse = await fetch(`${this.baseUrl}/swap`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        quoteResponse: quote,
+        userPublicKey: request.owner.toBase58(),
+        wrapAndUnwrapSol: true,
+        dynamicComputeUnitLimit: true,
+      }),
+    });
+    if (!swapResponse.ok) {
+      throw new Error(`Jupiter swap failed with ${swapResponse.status}: ${(await swapResponse.text()).slice(0, 200)}`);
+    }
+    const swap = await swapResponse.json();
+
+    const solAmount = lamportsToSol(Number(isBuy ? quote.inAmount : quote.outAmount));
+    const tokenAmount = Number(isBuy ? quote.outAmount : quote.inAmount) / Math.pow(10, decimals);
+
+    return {
+      transaction: VersionedTransaction.deserialize(Buffer.from(swap.swapTransaction, "base64")),
+      lastValidBlockHeight: swap.lastValidBlockHeight,
+      expectedAmountSol: solAmount,
+      expectedAmountTokens: tokenAmount,
+    };
+  }
+}
+
+/**
+ * Settles every swap at a fixed rate with a zero-value self-transfer, so the
+ * full sign/send/confirm path can run against a local validator.
+ */
+export class FakeSwapAdapter implements SwapAdapter {
+  readonly name = "fake";
+
+  constructor(private readonly tokensPerSol = parseFloat(process.env.FAKE_SWAP_TOKENS_PER_SOL || "1000")) {}
+
+  async buildSwap(request: SwapRequest): Promise<BuiltSwap> {
+    const { blockhash, lastValidBlockHeight } = await getConnection().getLatestBlockhash();
+    const message = new TransactionMessage({
+      payerKey: request.owner,
+      recentBlockhash: blockhash,
+      instructions: [SystemProgram.transfer({ fromPubkey: request.owner, toPubkey: request.owner, lamports: 0 })],
+    }).compileToV0Message();
+
+    let amountSol = request.amountSol ?? null;
+    let amountTokens = request.amountTokens ?? null;
+    if (amountSol === null && amountTokens !== null) amountSol = amountTokens / this.tokensPerSol;
+    if (amountTokens === null && amountSol !== null) amountTokens = amountSol * this.tokensPerSol;
+
+    return {
+      transaction: new VersionedTransaction(message),
+      lastValidBlockHeight,
+      expectedAmountSol: amountSol,
+      expectedAmountTokens: amountTokens,
+    };
+  }
+}
+
+const adapters = new Map<string, SwapAdapter>();
+
+export function registerSwapAdapter(adapter: SwapAdapter): void {
+  adapters.set(adapter.name, adapter);
+}
+
+registerSwapAdapter(new JupiterSwapAdapter());
+registerSwapAdapter(new FakeSwapAdapter());
+
+export function getSwapAdapter(name = process.env.SWAP_ADAPTER || "jupiter"): SwapAdapter {
+  const adapter = adapters.get(name);
+  if (!adapter) {
+    throw new Error(`Unknown swap adapter: ${name}`);
+  }
+  return adapter;
+}
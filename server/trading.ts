@@ -0,0 +1,75 @@
+import bs58 from "bs58";
+import { storage } from "./storage";
+import { loadKeypair, broadcastTransaction } from "./solana";
+import { getSwapAdapter, type SwapAdapter } from "./swap";
+import { PollingWorker } from "./worker";
+import type { Trade } from "@shared/schema";
+
+const TICK_INTERVAL_MS = 10 * 1000;
+const BATCH_SIZE = 10;
+
+export class TradeExecutor extends PollingWorker {
+  constructor(private readonly adapter: SwapAdapter = getSwapAdapter()) {
+    super("Trade executor", TICK_INTERVAL_MS);
+  }
+
+  protected async tick(): Promise<void> {
+    const pending = await storage.getTradesByStatus("pending", BATCH_SIZE);
+    for (const trade of pending) {
+      // Claiming moves the row out of "pending" atomically, so a trade is
+      // never picked up twice.
+      const claimed = await storage.transitionTrade(trade.id, "pending", { status: "submitted", submittedAt: new Date() });
+      if (!claimed) continue;
+      await this.execute(claimed);
+    }
+  }
+
+  async execute(trade: Trade): Promise<void> {
+    const bot = await storage.getBot(trade.botId);
+    if (!bot) return;
+
+    try {
+      const wallet = await storage.getBotWallet(trade.botId);
+      if (!wallet) throw new Error("Wallet not found");
+      const keypair = loadKeypair(wallet.encryptedPrivateKey);
+
+      const built = await this.adapter.buildSwap({
+        owner: keypair.publicKey,
+        side: trade.tradeType === "buy" ? "buy" : "sell",
+        tokenMint: trade.tokenMint,
+        amountSol: trade.amountSol ? parseFloat(trade.amountSol) : undefined,
+        amountTokens: trade.amountTokens ? parseFloat(trade.amountTokens) : undefined,
+        slippageBps: parseInt(process.env.SWAP_SLIPPAGE_BPS || "100", 10),
+      });
+
+      built.transaction.sign([keypair]);
+      const txHash = bs58.encode(built.transaction.signatures[0]);
+
+      // The signature is recorded before broadcasting so a crash after sending
+      // still leaves a txHash for the confirmation tracker to reconcile.
+      await storage.updateTrade(trade.id, {
+        txHash,
+        signedTransaction: Buffer.from(built.transaction.serialize()).toString("base64"),
+        lastValidBlockHeight: built.lastValidBlockHeight,
+        amountSol: trade.amountSol ?? built.expectedAmountSol?.toString() ?? null,
+        amountTokens: built.expectedAmountTokens?.toString() ?? trade.amountTokens,
+      });
+      await storage.createAuditLog({
+        userId: bot.userId, botId: bot.id, action: "trade_submitted",
+        details: { tradeId: trade.id, txHash, adapter: this.adapter.name },
+        source: "agent",
+      });
+
+      await broadcastTransaction(built.transaction);
+    } catch (err: any) {
+      await storage.updateTrade(trade.id, { status: "failed", errorMessage: err.message });
+      await storage.createAuditLog({
+        userId: bot.userId, botId: bot.id, action: "trade_failed",
+        details: { tradeId: trade.id, error: err.message },
+        source: "agent",
+      });
+    }
+  }
+}
+
+export const tradeExecutor = new TradeExecutor();
@@ -0,0 +1,267 @@
+import { randomBytes, createHash, createHmac, timingSafeEqual } from "crypto";
+import type { Request, Response, NextFunction } from "express";
+import bcrypt from "bcrypt";
+import jwt from "jsonwebtoken";
+import { storage } from "./storage";
+import { encrypt, decrypt } from "./crypto";
+import { getJwtSecret } from "./sessions";
+import type { Session, User } from "@shared/schema";
+
+const TOTP_ISSUER = "Moltcook";
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+// Accept the previous and next code too, for clock drift.
+const TOTP_DRIFT_STEPS = 1;
+const RECOVERY_CODE_COUNT = 10;
+const LOGIN_CHALLENGE_TTL = "5m";
+const LOGIN_CHALLENGE_AUDIENCE = "login-2fa";
+const STEP_UP_WINDOW_MS = 5 * 60 * 1000;
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+export class TwoFactorError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "TwoFactorError";
+  }
+}
+
+function base32Encode(buf: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let out = "";
+  for (const byte of buf) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      out += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) out += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return out;
+}
+
+function base32Decode(input: string): Buffer {
+  let bits = 0;
+  let value = 0;
+  const out: number[] = [];
+  for (const char of input.replace(/=+$/, "").toUpperCase()) {
+    const idx = BASE32_ALPHABET.indexOf(char);
+    if (idx === -1) throw new Error("Invalid base32 character");
+    value = (value << 5) | idx;
+    bits += 5;
+    if (bits >= 8) {
+      out.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(out);
+}
+
+/** RFC 6238 TOTP (HMAC-SHA1, 30s steps, 6 digits) as used by authenticator apps. */
+function totpCode(secret: Buffer, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = createHmac("sha1", secret).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const code = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** TOTP_DIGITS;
+  return code.toString().padStart(TOTP_DIGITS, "0");
+}
+
+/** The time step the code belongs to, or null if it matches none in the drift window. */
+function matchTotpStep(secret: Buffer, code: string, now = Date.now()): number | null {
+  const current = Math.floor(now / 1000 / TOTP_STEP_SECONDS);
+  for (let step = current - TOTP_DRIFT_STEPS; step <= current + TOTP_DRIFT_STEPS; step++) {
+    const expected = totpCode(secret, step);
+    if (timingSafeEqual(Buffer.from(expected), Buffer.from(code))) return step;
+  }
+  return null;
+}
+
+function normalizeRecoveryCode(code: string): string {
+  return code.replace(/[\s-]/g, "").toLowerCase();
+}
+
+function hashRecoveryCode(code: string): string {
+  return createHash("sha256").update(normalizeRecoveryCode(code)).digest("hex");
+}
+
+function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = randomBytes(5).toString("hex");
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+}
+
+export function isTwoFactorEnabled(user: User): boolean {
+  return !!user.totpEnabledAt && !!user.encryptedTotpSecret;
+}
+
+export function isSessionElevated(session: Session | undefined): boolean {
+  return !!session?.elevatedUntil && session.elevatedUntil.getTime() > Date.now();
+}
+
+/**
+ * Guard for sensitive routes; run after authMiddleware (and requireBotAccess
+ * where present). API tokens pass through: their scopes were granted from an
+ * elevated session when they were created.
+ */
+export function requireStepUp(req: Request, res: Response, next: NextFunction) {
+  if ((req as any).apiToken || isSessionElevated((req as any).session)) return next();
+  return res.status(403).json({ message: "Please confirm your identity to continue", stepUpRequired: true });
+}
+
+/**
+ * Authenticator-app second factor. Enrolment is two-step: `setup` stores a
+ * pending secret and `enable` switches it on once the user proves their app
+ * produces matching codes. Each code is accepted once; recovery codes are
+ * stored hashed and consumed on use.
+ */
+export class TwoFactorService {
+  status(user: User): { enabled: boolean; recoveryCodesRemaining: number } {
+    return {
+      enabled: isTwoFactorEnabled(user),
+      recoveryCodesRemaining: isTwoFactorEnabled(user) ? user.totpRecoveryCodes?.length ?? 0 : 0,
+    };
+  }
+
+  async setup(user: User, password: string): Promise<{ secret: string; otpauthUrl: string }> {
+    if (isTwoFactorEnabled(user)) throw new TwoFactorError("Two-factor authentication is already enabled", 409);
+    await this.verifyPassword(user, password);
+
+    const secret = base32Encode(randomBytes(20));
+    await storage.updateUserTwoFactor(user.id, {
+      encryptedTotpSecret: encrypt(secret),
+      totpEnabledAt: null,
+      totpLastStep: null,
+      totpRecoveryCodes: null,
+    });
+    const label = encodeURIComponent(`${TOTP_ISSUER}:${user.username}`);
+    const otpauthUrl = `otpauth://totp/${label}?secret=${secret}&issuer=${TOTP_ISSUER}&digits=${TOTP_DIGITS}&period=${TOTP_STEP_SECONDS}`;
+    return { secret, otpauthUrl };
+  }
+
+  async enable(user: User, code: string): Promise<string[]> {
+    if (isTwoFactorEnabled(user)) throw new TwoFactorError("Two-factor authentication is already enabled", 409);
+    if (!user.encryptedTotpSecret) throw new TwoFactorError("Start two-factor setup first", 400);
+    if (!(await this.verifyTotp(user, code))) throw new TwoFactorError("Invalid code", 401);
+
+    const recoveryCodes = generateRecoveryCodes();
+    await storage.updateUserTwoFactor(user.id, {
+      totpEnabledAt: new Date(),
+      totpRecoveryCodes: recoveryCodes.map(hashRecoveryCode),
+    });
+    await this.audit(user.id, "two_factor_enabled", {});
+    return recoveryCodes;
+  }
+
+  async disable(user: User, password: string, code: string): Promise<void> {
+    this.requireEnabled(user);
+    await this.verifyPassword(user, password);
+    if (!(await this.verifyCode(user, code))) throw new TwoFactorError("Invalid code", 401);
+
+    await storage.updateUserTwoFactor(user.id, {
+      encryptedTotpSecret: null,
+      totpEnabledAt: null,
+      totpLastStep: null,
+      totpRecoveryCodes: null,
+    });
+    await this.audit(user.id, "two_factor_disabled", {});
+  }
+
+  async regenerateRecoveryCodes(user: User, code: string): Promise<string[]> {
+    this.requireEnabled(user);
+    if (!(await this.verifyCode(user, code))) throw new TwoFactorError("Invalid code", 401);
+
+    const recoveryCodes = generateRecoveryCodes();
+    await storage.updateUserTwoFactor(user.id, { totpRecoveryCodes: recoveryCodes.map(hashRecoveryCode) });
+    await this.audit(user.id, "two_factor_recovery_codes_regenerated", {});
+    return recoveryCodes;
+  }
+
+  /** Issued after a correct password when the account has 2FA on. */
+  createLoginChallenge(user: User): string {
+    return jwt.sign({ userId: user.id }, getJwtSecret(), {
+      expiresIn: LOGIN_CHALLENGE_TTL,
+      audience: LOGIN_CHALLENGE_AUDIENCE,
+    });
+  }
+
+  async completeLoginChallenge(challengeToken: string, code: string): Promise<User> {
+    let payload: { userId: number };
+    try {
+      payload = jwt.verify(challengeToken, getJwtSecret(), { audience: LOGIN_CHALLENGE_AUDIENCE }) as { userId: number };
+    } catch {
+      throw new TwoFactorError("Login challenge expired, please sign in again", 401);
+    }
+    const user = await storage.getUser(payload.userId);
+    if (!user || !isTwoFactorEnabled(user)) {
+      throw new TwoFactorError("Login challenge expired, please sign in again", 401);
+    }
+    if (!(await this.verifyCode(user, code))) {
+      await this.audit(user.id, "login_2fa_failed", {});
+      throw new TwoFactorError("Invalid code", 401);
+    }
+    return user;
+  }
+
+  /**
+   * Open the elevated window on the caller's session. Accounts with 2FA must
+   * give a code; accounts without it confirm their password instead.
+   */
+  async stepUp(user: User, session: Session, input: { password?: string; code?: string }): Promise<Date> {
+    if (isTwoFactorEnabled(user)) {
+      if (!input.code || !(await this.verifyCode(user, input.code))) {
+        await this.audit(user.id, "step_up_denied", { sessionId: session.id });
+        throw new TwoFactorError("Invalid code", 401);
+      }
+    } else {
+      if (!input.password || !(await bcrypt.compare(input.password, user.passwordHash))) {
+        await this.audit(user.id, "step_up_denied", { sessionId: session.id });
+        throw new TwoFactorError("Invalid password", 401);
+      }
+    }
+    const until = new Date(Date.now() + STEP_UP_WINDOW_MS);
+    await storage.elevateSession(session.id, until);
+    return until;
+  }
+
+  private async verifyCode(user: User, code: string): Promise<boolean> {
+    const trimmed = code.trim();
+    if (/^\d{6}$/.test(trimmed)) return this.verifyTotp(user, trimmed);
+
+    const used = await storage.consumeRecoveryCode(user.id, hashRecoveryCode(trimmed));
+    if (used) {
+      await this.audit(user.id, "two_factor_recovery_code_used", {
+        remaining: Math.max((user.totpRecoveryCodes?.length ?? 1) - 1, 0),
+      });
+    }
+    return used;
+  }
+
+  /** Claims the matched step so the same code can't be replayed. */
+  private async verifyTotp(user: User, code: string): Promise<boolean> {
+    if (!user.encryptedTotpSecret || !/^\d{6}$/.test(code)) return false;
+    const secret = base32Decode(decrypt(user.encryptedTotpSecret));
+    const step = matchTotpStep(secret, code);
+    if (step === null) return false;
+    return storage.claimTotpStep(user.id, step);
+  }
+
+  private requireEnabled(user: User): void {
+    if (!isTwoFactorEnabled(user)) throw new TwoFactorError("Two-factor authentication is not enabled", 400);
+  }
+
+  private async verifyPassword(user: User, password: string): Promise<void> {
+    if (!(await bcrypt.compare(password, user.passwordHash))) {
+      throw new TwoFactorError("Invalid password", 401);
+    }
+  }
+
+  private async audit(userId: number, action: string, details: Record<string, unknown>): Promise<void> {
+    await storage.createAuditLog({ userId, botId: null, action, details, source: "web" });
+  }
+}
+
+export const twoFactor = new TwoFactorService();
@@ -0,0 +1,106 @@
+import bcrypt from "bcrypt";
+import { storage } from "./storage";
+import { encrypt, decrypt } from "./crypto";
+import { getChain } from "./chains";
+import type { Bot, BotWallet, Chain, User } from "@shared/schema";
+
+export class WalletKeyError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "WalletKeyError";
+  }
+}
+
+export interface ExportedWalletKey {
+  chain: Chain;
+  publicAddress: string;
+  privateKey: string;
+}
+
+/**
+ * Moving a wallet's private key in or out of Moltcook. Both directions need
+ * the owner's password again, and every attempt is audited whether or not it
+ * succeeds.
+ */
+export class WalletKeyService {
+  async exportKey(user: User, bot: Bot, password: string, ip?: string): Promise<ExportedWalletKey> {
+    await this.reauthenticate(user, bot, password, "wallet_key_export", ip);
+
+    const wallet = await this.requireWallet(bot);
+    const chain = getChain(wallet.chain);
+    const privateKey = decrypt(wallet.encryptedPrivateKey);
+
+    await storage.createAuditLog({
+      userId: user.id, botId: bot.id, action: "wallet_key_exported",
+      details: { chain: chain.id, publicAddress: wallet.publicAddress, ip },
+      source: "web",
+    });
+    return { chain: chain.id, publicAddress: wallet.publicAddress, privateKey };
+  }
+
+  /**
+   * Replace the bot's wallet with one the owner already controls. The old
+   * key is discarded, so we refuse while trades or withdrawals signed by it
+   * are still in flight.
+   */
+  async importKey(user: User, bot: Bot, password: string, secret: string, chainId?: Chain, ip?: string): Promise<BotWallet> {
+    await this.reauthenticate(user, bot, password, "wallet_key_import", ip);
+
+    const current = await this.requireWallet(bot);
+    const chain = getChain(chainId ?? current.chain);
+
+    let keypair: { publicKey: string; privateKey: string };
+    try {
+      keypair = chain.parseSecretKey(secret);
+    } catch {
+      throw new WalletKeyError(`Invalid ${chain.id === "solana" ? "Solana secret key" : "EVM private key"}`, 400);
+    }
+
+    if (keypair.publicKey === current.publicAddress) {
+      throw new WalletKeyError("This key is already the agent's wallet", 409);
+    }
+    const existing = await storage.getBotWalletByAddress(keypair.publicKey);
+    if (existing) {
+      throw new WalletKeyError("This wallet is already in use by another agent", 409);
+    }
+    // Under the same lock that guards creating trades and withdrawals, so none
+    // can appear between the check and the swap.
+    const wallet = await storage.withBotLock(bot.id, async locked => {
+      if (await locked.hasInFlightTransactions(bot.id)) {
+        throw new WalletKeyError("Wait for pending trades and withdrawals to settle before importing a wallet", 409);
+      }
+      const replaced = await locked.replaceBotWallet(bot.id, {
+        chain: chain.id,
+        publicAddress: keypair.publicKey,
+        encryptedPrivateKey: encrypt(keypair.privateKey),
+      });
+      if (!replaced) throw new WalletKeyError("Wallet not found", 404);
+      return replaced;
+    });
+
+    await storage.createAuditLog({
+      userId: user.id, botId: bot.id, action: "wallet_key_imported",
+      details: { chain: chain.id, previousAddress: current.publicAddress, publicAddress: wallet.publicAddress, ip },
+      source: "web",
+    });
+    return wallet;
+  }
+
+  private async requireWallet(bot: Bot): Promise<BotWallet> {
+    const wallet = await storage.getBotWallet(bot.id);
+    if (!wallet) throw new WalletKeyError("Wallet not found", 404);
+    return wallet;
+  }
+
+  private async reauthenticate(user: User, bot: Bot, password: string, action: string, ip?: string): Promise<void> {
+    if (await bcrypt.compare(password, user.passwordHash)) return;
+    await storage.createAuditLog({
+      userId: user.id, botId: bot.id, action: `${action}_denied`,
+      details: { reason: "invalid_password", ip },
+      source: "web",
+    });
+    throw new WalletKeyError("Invalid password", 401);
+  }
+}
+
+export const walletKeys = new WalletKeyService();
@@ -0,0 +1,326 @@
+import { randomBytes, randomUUID, createHmac } from "crypto";
+import { lookup, type LookupAddress, type LookupOptions } from "dns";
+import { BlockList, isIP } from "net";
+import http from "http";
+import https from "https";
+import { storage } from "./storage";
+import { encrypt, decrypt } from "./crypto";
+import { onBotEvent, type BotEvent } from "./events";
+import { PollingWorker } from "./worker";
+import type { BotEventType, User, WebhookDelivery, WebhookEndpoint } from "@shared/schema";
+
+const DISPATCH_INTERVAL_MS = 5 * 1000;
+const BATCH_SIZE = 20;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+const MAX_ATTEMPTS = 8;
+const BASE_BACKOFF_MS = 30 * 1000;
+const MAX_BACKOFF_MS = 6 * 60 * 60 * 1000;
+// A delivery stuck in "sending" this long belongs to a process that died.
+const SENDING_LEASE_MS = 2 * 60 * 1000;
+const MAX_ENDPOINTS_PER_USER = 10;
+const MAX_ERROR_LENGTH = 500;
+
+export const WEBHOOK_SIGNATURE_HEADER = "X-Moltcook-Signature";
+
+export class WebhookError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "WebhookError";
+  }
+}
+
+export interface WebhookInput {
+  url: string;
+  description?: string;
+  events: BotEventType[];
+  botIds?: number[] | null;
+  active?: boolean;
+}
+
+/**
+ * `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<raw body>">`. Receivers
+ * should recompute v1 with their endpoint secret and reject stale timestamps.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const digest = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `t=${timestamp},v1=${digest}`;
+}
+
+/** Endpoint fields safe to return to clients; never includes the secret. */
+export function describeWebhook(endpoint: WebhookEndpoint) {
+  const { encryptedSecret: _secret, ...rest } = endpoint;
+  return rest;
+}
+
+function backoffMs(attempts: number): number {
+  return Math.min(BASE_BACKOFF_MS * 2 ** (attempts - 1), MAX_BACKOFF_MS);
+}
+
+// Loopback, private, carrier-grade NAT, link-local (including cloud metadata
+// at 169.254.169.254), multicast and reserved ranges. IPv4-mapped IPv6
+// addresses are matched against the IPv4 entries.
+const INTERNAL_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16],
+  ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 3],
+] as const) {
+  INTERNAL_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128], ["::1", 128], ["64:ff9b::", 96], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8],
+] as const) {
+  INTERNAL_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+function isInternalAddress(address: string): boolean {
+  return INTERNAL_ADDRESSES.check(address, isIP(address) === 6 ? "ipv6" : "ipv4");
+}
+
+const INTERNAL_HOST_MESSAGE = "Webhook URLs must point to a public address";
+
+/**
+ * `dns.lookup` for outgoing deliveries. Addresses are checked when the socket
+ * connects, so a host can't pass a check and then resolve somewhere internal.
+ */
+function publicLookup(
+  hostname: string,
+  options: LookupOptions,
+  callback: (err: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void,
+): void {
+  lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, "");
+    if (addresses.length === 0 || addresses.some(a => isInternalAddress(a.address))) {
+      return callback(Object.assign(new Error(INTERNAL_HOST_MESSAGE), { code: "EHOSTBLOCKED" }), "");
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}
+
+function parseDeliverableUrl(raw: string): URL {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    throw new WebhookError("Enter a valid URL", 400);
+  }
+  const allowHttp = process.env.NODE_ENV !== "production";
+  if (url.protocol !== "https:" && !(allowHttp && url.protocol === "http:")) {
+    throw new WebhookError("Webhook URLs must use https", 400);
+  }
+  if (url.username || url.password) {
+    throw new WebhookError("Webhook URLs cannot contain credentials", 400);
+  }
+  // IP literals never reach the lookup, so they are checked here.
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  if (isIP(host) && isInternalAddress(host)) {
+    throw new WebhookError(INTERNAL_HOST_MESSAGE, 400);
+  }
+  return url;
+}
+
+/** Reject URLs that are malformed or whose host resolves to an internal address. */
+async function assertDeliverableUrl(raw: string): Promise<void> {
+  const url = parseDeliverableUrl(raw);
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  if (isIP(host)) return;
+  await new Promise<void>((resolve, reject) => {
+    publicLookup(host, {}, err => {
+      if (!err) return resolve();
+      reject(new WebhookError(err.message === INTERNAL_HOST_MESSAGE ? INTERNAL_HOST_MESSAGE : "Webhook host could not be resolved", 400));
+    });
+  });
+}
+
+/** POST without following redirects; resolves with the response status. */
+function postJson(url: URL, headers: Record<string, string>, body: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const request = (url.protocol === "https:" ? https : http).request(url, {
+      method: "POST",
+      headers: { ...headers, "Content-Length": Buffer.byteLength(body).toString() },
+      lookup: publicLookup,
+      timeout: REQUEST_TIMEOUT_MS,
+    }, response => {
+      response.resume();
+      resolve(response.statusCode ?? 0);
+    });
+    request.on("timeout", () => request.destroy(Object.assign(new Error("Request timed out"), { name: "TimeoutError" })));
+    request.on("error", reject);
+    request.end(body);
+  });
+}
+
+/**
+ * Outbound webhooks for bot events. Events are written to a delivery log as
+ * they happen and sent by `WebhookDispatcher`, so delivery is at-least-once:
+ * receivers should de-duplicate on the event id.
+ */
+export class WebhookService {
+  private listening = false;
+
+  /** Start turning bot events raised in this process into deliveries. */
+  listen(): void {
+    if (this.listening) return;
+    this.listening = true;
+    onBotEvent(event => this.enqueue(event));
+  }
+
+  async create(user: User, input: WebhookInput): Promise<{ endpoint: WebhookEndpoint; secret: string }> {
+    await assertDeliverableUrl(input.url);
+    const existing = await storage.getWebhookEndpointsByUser(user.id);
+    if (existing.length >= MAX_ENDPOINTS_PER_USER) {
+      throw new WebhookError(`You can register up to ${MAX_ENDPOINTS_PER_USER} webhook endpoints`, 409);
+    }
+
+    const secret = `whsec_${randomBytes(24).toString("base64url")}`;
+    const endpoint = await storage.createWebhookEndpoint({
+      userId: user.id,
+      url: input.url,
+      description: input.description ?? null,
+      encryptedSecret: encrypt(secret),
+      events: Array.from(new Set(input.events)),
+      botIds: input.botIds ? Array.from(new Set(input.botIds)) : null,
+    });
+    await this.audit(user.id, "webhook_created", { webhookId: endpoint.id, url: endpoint.url, events: endpoint.events });
+    return { endpoint, secret };
+  }
+
+  async update(user: User, id: number, input: Partial<WebhookInput>): Promise<WebhookEndpoint> {
+    await this.requireOwned(user, id);
+    if (input.url !== undefined) await assertDeliverableUrl(input.url);
+
+    const data: Partial<WebhookEndpoint> = {};
+    if (input.url !== undefined) data.url = input.url;
+    if (input.description !== undefined) data.description = input.description;
+    if (input.events !== undefined) data.events = Array.from(new Set(input.events));
+    if (input.botIds !== undefined) data.botIds = input.botIds ? Array.from(new Set(input.botIds)) : null;
+    if (input.active !== undefined) data.active = input.active;
+
+    const endpoint = await storage.updateWebhookEndpoint(id, data);
+    if (!endpoint) throw new WebhookError("Webhook not found", 404);
+    await this.audit(user.id, "webhook_updated", { webhookId: id, changes: Object.keys(data) });
+    return endpoint;
+  }
+
+  async remove(user: User, id: number): Promise<void> {
+    if (!(await storage.deleteWebhookEndpoint(user.id, id))) {
+      throw new WebhookError("Webhook not found", 404);
+    }
+    await this.audit(user.id, "webhook_deleted", { webhookId: id });
+  }
+
+  async rotateSecret(user: User, id: number): Promise<string> {
+    await this.requireOwned(user, id);
+    const secret = `whsec_${randomBytes(24).toString("base64url")}`;
+    await storage.updateWebhookEndpoint(id, { encryptedSecret: encrypt(secret) });
+    await this.audit(user.id, "webhook_secret_rotated", { webhookId: id });
+    return secret;
+  }
+
+  async requireOwned(user: User, id: number): Promise<WebhookEndpoint> {
+    const endpoint = await storage.getWebhookEndpoint(id);
+    if (!endpoint || endpoint.userId !== user.id) throw new WebhookError("Webhook not found", 404);
+    return endpoint;
+  }
+
+  async enqueue(event: BotEvent): Promise<void> {
+    const bot = await storage.getBot(event.botId);
+    if (!bot) return;
+    const endpoints = await storage.getWebhookEndpointsForEvent(bot, event.type);
+    for (const endpoint of endpoints) {
+      await storage.createWebhookDelivery({
+        endpointId: endpoint.id,
+        eventId: event.id,
+        eventType: event.type,
+        botId: event.botId,
+        payload: { id: event.id, type: event.type, createdAt: event.createdAt, botId: event.botId, data: event.data },
+      });
+    }
+  }
+
+  /** Send a synthetic event to one endpoint right away and report the outcome. */
+  async testFire(user: User, id: number): Promise<WebhookDelivery> {
+    const endpoint = await this.requireOwned(user, id);
+    const eventId = randomUUID();
+    const delivery = await storage.createWebhookDelivery({
+      endpointId: endpoint.id,
+      eventId,
+      eventType: "webhook.test",
+      botId: null,
+      payload: {
+        id: eventId, type: "webhook.test", createdAt: new Date(), botId: null,
+        data: { message: "This is a test delivery from Moltcook" },
+      },
+    });
+    return (await this.attempt(delivery)) ?? delivery;
+  }
+
+  /** Claim and send one delivery. Returns the updated row, or undefined if another worker claimed it. */
+  async attempt(delivery: WebhookDelivery): Promise<WebhookDelivery | undefined> {
+    const attempts = (delivery.attempts || 0) + 1;
+    const claimed = await storage.transitionWebhookDelivery(delivery.id, delivery.status || "pending", {
+      status: "sending", attempts, lastAttemptAt: new Date(),
+    });
+    if (!claimed) return undefined;
+
+    const endpoint = await storage.getWebhookEndpoint(claimed.endpointId);
+    if (!endpoint || !endpoint.active) {
+      return storage.transitionWebhookDelivery(claimed.id, "sending", { status: "failed", lastError: "Endpoint disabled" });
+    }
+
+    const body = JSON.stringify(claimed.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    let responseStatus: number | null = null;
+    let error: string | null = null;
+    try {
+      // Checked again on every attempt: the URL predates any change to these
+      // rules, and DNS answers change.
+      const url = parseDeliverableUrl(endpoint.url);
+      responseStatus = await postJson(url, {
+        "Content-Type": "application/json",
+        "User-Agent": "Moltcook-Webhooks/1.0",
+        "X-Moltcook-Event": claimed.eventType,
+        "X-Moltcook-Delivery": claimed.eventId,
+        [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(decrypt(endpoint.encryptedSecret), timestamp, body),
+      }, body);
+      if (responseStatus < 200 || responseStatus >= 300) error = `HTTP ${responseStatus}`;
+    } catch (err: any) {
+      error = err?.name === "TimeoutError" ? "Request timed out" : err?.message || "Request failed";
+    }
+
+    if (!error) {
+      return storage.transitionWebhookDelivery(claimed.id, "sending", {
+        status: "delivered", responseStatus, lastError: null, deliveredAt: new Date(),
+      });
+    }
+    const exhausted = attempts >= MAX_ATTEMPTS;
+    return storage.transitionWebhookDelivery(claimed.id, "sending", {
+      status: exhausted ? "failed" : "pending",
+      responseStatus,
+      lastError: error.slice(0, MAX_ERROR_LENGTH),
+      nextAttemptAt: exhausted ? claimed.nextAttemptAt : new Date(Date.now() + backoffMs(attempts)),
+    });
+  }
+
+  private async audit(userId: number, action: string, details: Record<string, unknown>): Promise<void> {
+    await storage.createAuditLog({ userId, botId: null, action, details, source: "web" });
+  }
+}
+
+export const webhookService = new WebhookService();
+
+export class WebhookDispatcher extends PollingWorker {
+  constructor() {
+    super("Webhook dispatcher", DISPATCH_INTERVAL_MS);
+  }
+
+  protected async tick(): Promise<void> {
+    const now = new Date();
+    const due = await storage.getDueWebhookDeliveries(now, new Date(now.getTime() - SENDING_LEASE_MS), BATCH_SIZE);
+    for (const delivery of due) {
+      await webhookService.attempt(delivery);
+    }
+  }
+}
+
+export const webhookDispatcher = new WebhookDispatcher();
@@ -0,0 +1,125 @@
+import bs58 from "bs58";
+import { PublicKey, SystemProgram, TransactionMessage, VersionedTransaction } from "@solana/web3.js";
+import { storage } from "./storage";
+import { getConnection, loadKeypair, solToLamports, lamportsToSol, broadcastTransaction } from "./solana";
+import { loadEvmWallet, signEvmTransfer, broadcastEvmTransaction } from "./evm";
+import { getChain } from "./chains";
+import { PollingWorker } from "./worker";
+import type { BotWallet, Withdrawal } from "@shared/schema";
+
+const TICK_INTERVAL_MS = 10 * 1000;
+const BATCH_SIZE = 10;
+
+/** Solana rows store base64 wire bytes; EVM rows store the 0x-prefixed raw transaction. */
+interface SignedWithdrawal {
+  txHash: string;
+  signedTransaction: string;
+  lastValidBlockHeight: number | null;
+}
+
+export class WithdrawalProcessor extends PollingWorker {
+  constructor() {
+    super("Withdrawal processor", TICK_INTERVAL_MS);
+  }
+
+  protected async tick(): Promise<void> {
+    const pending = await storage.getWithdrawalsByStatus("pending", BATCH_SIZE);
+    for (const withdrawal of pending) {
+      const claimed = await storage.transitionWithdrawal(withdrawal.id, "pending", { status: "submitted", submittedAt: new Date() });
+      if (!claimed) continue;
+      await this.process(claimed);
+    }
+  }
+
+  async process(withdrawal: Withdrawal): Promise<void> {
+    const bot = await storage.getBot(withdrawal.botId);
+    if (!bot) return;
+
+    try {
+      const wallet = await storage.getBotWallet(withdrawal.botId);
+      if (!wallet) throw new Error("Wallet not found");
+      const chain = getChain(wallet.chain).id;
+      if (chain !== getChain(withdrawal.chain).id) {
+        throw new Error(`Withdrawal chain ${withdrawal.chain} does not match the ${chain} wallet`);
+      }
+
+      const signed = chain === "base"
+        ? await this.signEvm(wallet, withdrawal)
+        : await this.signSolana(wallet, withdrawal);
+
+      await storage.updateWithdrawal(withdrawal.id, {
+        txHash: signed.txHash,
+        signedTransaction: signed.signedTransaction,
+        lastValidBlockHeight: signed.lastValidBlockHeight,
+      });
+      await storage.createAuditLog({
+        userId: bot.userId, botId: bot.id, action: "withdrawal_submitted",
+        details: { withdrawalId: withdrawal.id, chain, txHash: signed.txHash },
+        source: "agent",
+      });
+
+      if (chain === "base") {
+        await broadcastEvmTransaction(signed.signedTransaction);
+      } else {
+        await broadcastTransaction(Buffer.from(signed.signedTransaction, "base64"));
+      }
+    } catch (err: any) {
+      await storage.updateWithdrawal(withdrawal.id, { status: "failed", errorMessage: err.message });
+      await storage.createAuditLog({
+        userId: bot.userId, botId: bot.id, action: "withdrawal_failed",
+        details: { withdrawalId: withdrawal.id, error: err.message },
+        source: "agent",
+      });
+    }
+  }
+
+  private async signSolana(wallet: BotWallet, withdrawal: Withdrawal): Promise<SignedWithdrawal> {
+    const keypair = loadKeypair(wallet.encryptedPrivateKey);
+    const connection = getConnection();
+
+    const lamports = solToLamports(parseFloat(withdrawal.amountSol));
+    const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash();
+    const message = new TransactionMessage({
+      payerKey: keypair.publicKey,
+      recentBlockhash: blockhash,
+      instructions: [SystemProgram.transfer({
+        fromPubkey: keypair.publicKey,
+        toPubkey: new PublicKey(withdrawal.destinationAddress),
+        lamports,
+      })],
+    }).compileToV0Message();
+
+    // The wallet must stay rent-exempt after paying the transfer and its fee.
+    const [balance, rentReserve, fee] = await Promise.all([
+      connection.getBalance(keypair.publicKey),
+      connection.getMinimumBalanceForRentExemption(0),
+      connection.getFeeForMessage(message),
+    ]);
+    const feeLamports = fee.value ?? 5000;
+    if (lamports + rentReserve + feeLamports > balance) {
+      const available = Math.max(balance - rentReserve - feeLamports, 0);
+      throw new Error(`Insufficient balance: ${lamportsToSol(available)} SOL available for withdrawal`);
+    }
+
+    const transaction = new VersionedTransaction(message);
+    transaction.sign([keypair]);
+    return {
+      txHash: bs58.encode(transaction.signatures[0]),
+      signedTransaction: Buffer.from(transaction.serialize()).toString("base64"),
+      lastValidBlockHeight,
+    };
+  }
+
+  private async signEvm(wallet: BotWallet, withdrawal: Withdrawal): Promise<SignedWithdrawal> {
+    const signed = await signEvmTransfer(loadEvmWallet(wallet.encryptedPrivateKey), {
+      to: withdrawal.destinationAddress,
+      amount: withdrawal.amountSol,
+      tokenAddress: withdrawal.tokenAddress,
+    });
+    // EVM transactions have no blockhash expiry; the confirmation tracker
+    // watches the sender nonce instead.
+    return { ...signed, lastValidBlockHeight: null };
+  }
+}
+
+export const withdrawalProcessor = new WithdrawalProcessor();
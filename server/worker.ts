@@ -0,0 +1,33 @@
+export abstract class PollingWorker {
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+
+  constructor(readonly name: string, private readonly intervalMs: number) {}
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => void this.runTick(), this.intervalMs);
+    void this.runTick();
+  }
+
+  stop(): void {
+    if (!this.timer) return;
+    clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  // Ticks never overlap: a slow pass simply skips the next interval.
+  private async runTick(): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+    try {
+      await this.tick();
+    } catch (err) {
+      console.error(`${this.name} tick error:`, err);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  protected abstract tick(): Promise<void>;
+}
@@ -0,0 +1,189 @@
+import { randomBytes, createHash, createHmac, timingSafeEqual } from "crypto";
+import { storage } from "./storage";
+import { encrypt, decrypt } from "./crypto";
+import { getBotRole, roleAllows } from "./permissions";
+
+const X_AUTHORIZE_URL = "https://twitter.com/i/oauth2/authorize";
+const X_TOKEN_URL = "https://api.twitter.com/2/oauth2/token";
+const X_SCOPES = "tweet.read tweet.write users.read offline.access";
+const STATE_TTL_MS = 10 * 60 * 1000;
+
+export class XOAuthError extends Error {
+  constructor(message: string, readonly permanent = true) {
+    super(message);
+    this.name = "XOAuthError";
+  }
+}
+
+export interface XOAuthConfig {
+  clientId: string;
+  clientSecret: string | undefined;
+  redirectUri: string;
+}
+
+export interface XTokenSet {
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: Date;
+}
+
+interface StatePayload {
+  n: string;
+  u: number;
+  b: number;
+  e: number;
+}
+
+export function getXOAuthConfig(): XOAuthConfig | null {
+  const clientId = process.env.X_CLIENT_ID;
+  const redirectUri = process.env.X_REDIRECT_URI;
+  if (!clientId || !redirectUri) return null;
+  return { clientId, clientSecret: process.env.X_CLIENT_SECRET, redirectUri };
+}
+
+function getStateSigningKey(): Buffer {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    if (process.env.NODE_ENV === "production") {
+      throw new Error("SESSION_SECRET is required in production");
+    }
+    return createHash("sha256").update("moltcook-dev-only-oauth-state-key").digest();
+  }
+  return createHash("sha256").update(`x-oauth-state:${secret}`).digest();
+}
+
+function signState(payload: StatePayload): string {
+  const encoded = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  const signature = createHmac("sha256", getStateSigningKey()).update(encoded).digest("base64url");
+  return `${encoded}.${signature}`;
+}
+
+function verifyState(state: string): StatePayload {
+  const [encoded, signature] = state.split(".");
+  if (!encoded || !signature) throw new XOAuthError("Invalid state parameter");
+
+  const expected = createHmac("sha256", getStateSigningKey()).update(encoded).digest();
+  const actual = Buffer.from(signature, "base64url");
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new XOAuthError("Invalid state parameter");
+  }
+
+  let payload: StatePayload;
+  try {
+    payload = JSON.parse(Buffer.from(encoded, "base64url").toString());
+  } catch {
+    throw new XOAuthError("Invalid state parameter");
+  }
+  if (Date.now() > payload.e) throw new XOAuthError("Authorization request expired, please try again");
+  return payload;
+}
+
+/**
+ * Start an authorization-code + S256 PKCE flow for a bot the user owns. The
+ * verifier stays server-side; the state is signed and usable exactly once.
+ */
+export async function createAuthorizationUrl(config: XOAuthConfig, userId: number, botId: number): Promise<string> {
+  const now = Date.now();
+  await storage.deleteExpiredXOauthStates(new Date(now));
+
+  const codeVerifier = randomBytes(32).toString("base64url");
+  const codeChallenge = createHash("sha256").update(codeVerifier).digest("base64url");
+  const nonce = randomBytes(16).toString("base64url");
+  const expiresAt = now + STATE_TTL_MS;
+
+  await storage.createXOauthState({
+    nonce,
+    userId,
+    botId,
+    encryptedCodeVerifier: encrypt(codeVerifier),
+    expiresAt: new Date(expiresAt),
+  });
+
+  const params = new URLSearchParams({
+    response_type: "code",
+    client_id: config.clientId,
+    redirect_uri: config.redirectUri,
+    scope: X_SCOPES,
+    state: signState({ n: nonce, u: userId, b: botId, e: expiresAt }),
+    code_challenge: codeChallenge,
+    code_challenge_method: "S256",
+  });
+  return `${X_AUTHORIZE_URL}?${params.toString()}`;
+}
+
+/**
+ * Validate and burn a callback state. Returns the PKCE verifier along with the
+ * user and bot it was issued for, after re-checking that the user still owns
+ * the bot (their role may have changed while they were on X).
+ */
+export async function consumeAuthorizationState(state: string): Promise<{ userId: number; botId: number; codeVerifier: string }> {
+  const payload = verifyState(state);
+
+  const stored = await storage.consumeXOauthState(payload.n);
+  if (!stored || stored.userId !== payload.u || stored.botId !== payload.b) {
+    throw new XOAuthError("Authorization request already used or unknown");
+  }
+  if (stored.expiresAt.getTime() < Date.now()) {
+    throw new XOAuthError("Authorization request expired, please try again");
+  }
+
+  const [bot, user] = await Promise.all([storage.getBot(stored.botId), storage.getUser(stored.userId)]);
+  const role = bot && user ? await getBotRole(user, bot) : null;
+  if (!role || !roleAllows(role, "manage")) {
+    throw new XOAuthError("Bot not found");
+  }
+
+  return { userId: stored.userId, botId: stored.botId, codeVerifier: decrypt(stored.encryptedCodeVerifier) };
+}
+
+async function requestTokens(config: XOAuthConfig, params: Record<string, string>): Promise<Response> {
+  return fetch(X_TOKEN_URL, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/x-www-form-urlencoded",
+      Authorization: `Basic ${Buffer.from(`${config.clientId}:${config.clientSecret || ""}`).toString("base64")}`,
+    },
+    body: new URLSearchParams(params),
+  });
+}
+
+function toTokenSet(data: any): XTokenSet {
+  return {
+    accessToken: data.access_token,
+    refreshToken: data.refresh_token,
+    expiresAt: new Date(Date.now() + (data.expires_in * 1000)),
+  };
+}
+
+export async function exchangeAuthorizationCode(config: XOAuthConfig, code: string, codeVerifier: string): Promise<XTokenSet> {
+  const response = await requestTokens(config, {
+    code,
+    grant_type: "authorization_code",
+    redirect_uri: config.redirectUri,
+    code_verifier: codeVerifier,
+  });
+  if (!response.ok) {
+    console.error("X token exchange failed:", await response.text());
+    throw new XOAuthError("Failed to exchange authorization code");
+  }
+  return toTokenSet(await response.json());
+}
+
+/**
+ * Trade a refresh token for a new pair. X rotates refresh tokens, so the old
+ * one is dead once this succeeds. Rejections by X are permanent; server
+ * errors are not.
+ */
+export async function refreshAccessToken(config: XOAuthConfig, refreshToken: string): Promise<XTokenSet> {
+  const response = await requestTokens(config, {
+    refresh_token: refreshToken,
+    grant_type: "refresh_token",
+    client_id: config.clientId,
+  });
+  if (!response.ok) {
+    const body = await response.text();
+    const permanent = response.status === 400 || response.status === 401;
+    throw new XOAuthError(`𝕏 token refresh failed with ${response.status}: ${body.slice(0, 200)}`, permanent);
+  }
+  return toTokenSet(await response.json());
+}
@@ -0,0 +1,104 @@
+import { storage } from "./storage";
+import { encrypt, decrypt } from "./crypto";
+import { getXOAuthConfig, refreshAccessToken, XOAuthError } from "./x-oauth";
+import { XApiError } from "./x";
+import type { BotXAccount } from "@shared/schema";
+
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+export class XTokenRevokedError extends Error {
+  constructor(readonly botId: number) {
+    super("𝕏 authorization was revoked; reconnect the account");
+    this.name = "XTokenRevokedError";
+  }
+}
+
+function isFresh(account: BotXAccount): boolean {
+  return !!account.tokenExpiresAt && account.tokenExpiresAt.getTime() - Date.now() > REFRESH_MARGIN_MS;
+}
+
+/**
+ * Hands out usable access tokens for connected bots, refreshing them shortly
+ * before expiry. Refreshes are single-flight per bot because X rotates the
+ * refresh token and a second concurrent refresh would be rejected.
+ */
+export class XTokenManager {
+  private refreshes = new Map<number, Promise<string>>();
+
+  async getAccessToken(botId: number): Promise<string> {
+    const account = await storage.getBotXAccount(botId);
+    if (!account) throw new Error("No 𝕏 account connected");
+    if (isFresh(account)) return decrypt(account.encryptedAccessToken);
+    return this.refresh(botId, false);
+  }
+
+  /**
+   * Run an X API call with a valid token, refreshing and retrying once if X
+   * rejects the token as expired.
+   */
+  async withAccessToken<T>(botId: number, call: (accessToken: string) => Promise<T>): Promise<T> {
+    const accessToken = await this.getAccessToken(botId);
+    try {
+      return await call(accessToken);
+    } catch (err) {
+      if (!(err instanceof XApiError) || err.status !== 401) throw err;
+      return call(await this.refresh(botId, true));
+    }
+  }
+
+  refresh(botId: number, force: boolean): Promise<string> {
+    const inFlight = this.refreshes.get(botId);
+    if (inFlight) return inFlight;
+    const refresh = this.doRefresh(botId, force).finally(() => this.refreshes.delete(botId));
+    this.refreshes.set(botId, refresh);
+    return refresh;
+  }
+
+  private async doRefresh(botId: number, force: boolean): Promise<string> {
+    const account = await storage.getBotXAccount(botId);
+    if (!account) throw new Error("No 𝕏 account connected");
+    if (!force && isFresh(account)) return decrypt(account.encryptedAccessToken);
+
+    const config = getXOAuthConfig();
+    if (!config) throw new Error("𝕏 integration not configured");
+
+    try {
+      const tokens = await refreshAccessToken(config, decrypt(account.encryptedRefreshToken));
+      await storage.updateBotXAccountTokens(botId, {
+        encryptedAccessToken: encrypt(tokens.accessToken),
+        encryptedRefreshToken: encrypt(tokens.refreshToken),
+        tokenExpiresAt: tokens.expiresAt,
+      });
+      return tokens.accessToken;
+    } catch (err) {
+      if (!(err instanceof XOAuthError) || !err.permanent) throw err;
+
+      // Another process may have rotated the refresh token underneath us.
+      const latest = await storage.getBotXAccount(botId);
+      if (latest && latest.encryptedRefreshToken !== account.encryptedRefreshToken && isFresh(latest)) {
+        return decrypt(latest.encryptedAccessToken);
+      }
+
+      await this.markRevoked(account, err.message);
+      throw new XTokenRevokedError(botId);
+    }
+  }
+
+  // The dead credentials are dropped so workers stop retrying them and the
+  // owner has to reconnect before the bot can be resumed.
+  private async markRevoked(account: BotXAccount, reason: string): Promise<void> {
+    const bot = await storage.getBot(account.botId);
+    if (!bot) return;
+    await storage.deleteBotXAccount(bot.id);
+    if (bot.status === "active") {
+      await storage.updateBot(bot.id, { status: "paused" } as any);
+    }
+    await storage.createAuditLog({
+      userId: bot.userId, botId: bot.id, action: "x_token_revoked",
+      details: { xUsername: account.xUsername, reason },
+      source: "agent",
+    });
+  }
+}
+
+export const xTokenManager = new XTokenManager();
@@ -0,0 +1,116 @@
+const X_API_BASE = "https://api.twitter.com/2";
+
+export class XApiError extends Error {
+  constructor(message: string, readonly status: number, readonly body: string) {
+    super(message);
+    this.name = "XApiError";
+  }
+}
+
+export interface XTweet {
+  id: string;
+  text: string;
+}
+
+async function xRequest<T>(accessToken: string, path: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(`${X_API_BASE}${path}`, {
+    ...init,
+    headers: {
+      ...(init.headers || {}),
+      Authorization: `Bearer ${accessToken}`,
+    },
+  });
+  if (!response.ok) {
+    const body = await response.text();
+    throw new XApiError(`𝕏 API ${init.method || "GET"} ${path.split("?")[0]} failed with ${response.status}`, response.status, body);
+  }
+  return response.json() as Promise<T>;
+}
+
+export interface XMention {
+  id: string;
+  text: string;
+  authorId: string;
+  authorUsername: string;
+  createdAt: string | null;
+}
+
+const MAX_MENTION_PAGES = 5;
+
+export async function postTweet(accessToken: string, text: string, replyToTweetId?: string): Promise<XTweet> {
+  const data = await xRequest<{ data: XTweet }>(accessToken, "/tweets", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(replyToTweetId
+      ? { text, reply: { in_reply_to_tweet_id: replyToTweetId } }
+      : { text }),
+  });
+  return data.data;
+}
+
+export interface XUser {
+  id: string;
+  username: string;
+}
+
+/**
+ * Look up an account by handle. Returns null when no such account exists.
+ */
+export async function getUserByUsername(accessToken: string, username: string): Promise<XUser | null> {
+  const data = await xRequest<{ data?: XUser }>(accessToken, `/users/by/username/${encodeURIComponent(username)}`);
+  return data.data ? { id: data.data.id, username: data.data.username } : null;
+}
+
+function compareTweetIds(a: string, b: string): number {
+  const diff = BigInt(a) - BigInt(b);
+  return diff === BigInt(0) ? 0 : diff > BigInt(0) ? 1 : -1;
+}
+
+export interface XMentionBatch {
+  mentions: XMention[];
+  /** More mentions newer than sinceId were left unfetched by the page cap. */
+  truncated: boolean;
+}
+
+/**
+ * Fetch mentions newer than sinceId, oldest first. Without a sinceId only a
+ * single small page of the newest mentions is fetched, enough to seed a cursor.
+ */
+export async function getMentions(accessToken: string, xUserId: string, sinceId?: string | null): Promise<XMentionBatch> {
+  const mentions: XMention[] = [];
+  const maxPages = sinceId ? MAX_MENTION_PAGES : 1;
+  let paginationToken: string | undefined;
+
+  for (let page = 0; page < maxPages; page++) {
+    const params = new URLSearchParams({
+      max_results: sinceId ? "100" : "5",
+      expansions: "author_id",
+      "tweet.fields": "author_id,created_at",
+      "user.fields": "username",
+    });
+    if (sinceId) params.set("since_id", sinceId);
+    if (paginationToken) params.set("pagination_token", paginationToken);
+
+    const data = await xRequest<any>(accessToken, `/users/${xUserId}/mentions?${params.toString()}`);
+    const usernames: Record<string, string> = {};
+    for (const u of data.includes?.users || []) usernames[u.id] = u.username;
+
+    for (const tweet of data.data || []) {
+      mentions.push({
+        id: tweet.id,
+        text: tweet.text,
+        authorId: tweet.author_id,
+        authorUsername: usernames[tweet.author_id] || tweet.author_id,
+        createdAt: tweet.created_at || null,
+      });
+    }
+
+    paginationToken = data.meta?.next_token;
+    if (!paginationToken) break;
+  }
+
+  return {
+    mentions: mentions.sort((a, b) => compareTweetIds(a.id, b.id)),
+    truncated: !!sinceId && !!paginationToken,
+  };
+}
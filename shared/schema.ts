@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, serial, integer, boolean, timestamp, jsonb, numeric } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, serial, integer, boolean, timestamp, jsonb, numeric, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -7,12 +7,34 @@ export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: varchar("username", { length: 30 }).notNull().unique(),
   passwordHash: text("password_hash").notNull(),
+  plan: varchar("plan", { length: 20 }).default("free"),
+  encryptedTotpSecret: text("encrypted_totp_secret"),
+  totpEnabledAt: timestamp("totp_enabled_at"),
+  totpLastStep: integer("totp_last_step"),
+  totpRecoveryCodes: jsonb("totp_recovery_codes").$type<string[]>(),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+export const organizations = pgTable("organizations", {
+  id: serial("id").primaryKey(),
+  name: varchar("name", { length: 100 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const organizationMembers = pgTable("organization_members", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").notNull().references(() => organizations.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  role: varchar("role", { length: 20 }).notNull().default("viewer"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (t) => ({
+  memberUnique: unique().on(t.organizationId, t.userId),
+}));
+
 export const bots = pgTable("bots", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  organizationId: integer("organization_id").references(() => organizations.id, { onDelete: "set null" }),
   botName: varchar("bot_name", { length: 100 }).notNull(),
   personalityPrompt: text("personality_prompt").notNull(),
   personalityConfig: jsonb("personality_config").default({}),
@@ -20,9 +42,15 @@ export const bots = pgTable("bots", {
   postingIntervalMinutes: integer("posting_interval_minutes").default(120),
   mentionCheckIntervalSeconds: integer("mention_check_interval_seconds").default(60),
   transactionCommanderX: varchar("transaction_commander_x", { length: 100 }).notNull(),
+  // X user id behind the commander handle, resolved when the handle is saved
+  // or the bot's X account is connected. Handles can be renamed and reclaimed;
+  // commands are only accepted from this id.
+  transactionCommanderXId: varchar("transaction_commander_x_id", { length: 100 }),
   status: varchar("status", { length: 20 }).default("paused"),
   lastMentionId: varchar("last_mention_id", { length: 100 }),
   lastPostAt: timestamp("last_post_at"),
+  approvalMode: boolean("approval_mode").default(false),
+  approvalExpiryMinutes: integer("approval_expiry_minutes").default(1440),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -38,6 +66,16 @@ export const botXAccounts = pgTable("bot_x_accounts", {
   connectedAt: timestamp("connected_at").defaultNow(),
 });
 
+export const xOauthStates = pgTable("x_oauth_states", {
+  id: serial("id").primaryKey(),
+  nonce: varchar("nonce", { length: 64 }).notNull().unique(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  botId: integer("bot_id").notNull().references(() => bots.id, { onDelete: "cascade" }),
+  encryptedCodeVerifier: text("encrypted_code_verifier").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 export const botWallets = pgTable("bot_wallets", {
   id: serial("id").primaryKey(),
   botId: integer("bot_id").notNull().references(() => bots.id, { onDelete: "cascade" }).unique(),
@@ -47,6 +85,16 @@ export const botWallets = pgTable("bot_wallets", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+export const withdrawalAddresses = pgTable("withdrawal_addresses", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  label: varchar("label", { length: 100 }).notNull(),
+  address: varchar("address", { length: 100 }).notNull(),
+  chain: varchar("chain", { length: 20 }).default("solana"),
+  activatesAt: timestamp("activates_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 export const trades = pgTable("trades", {
   id: serial("id").primaryKey(),
   botId: integer("bot_id").notNull().references(() => bots.id, { onDelete: "cascade" }),
@@ -59,21 +107,49 @@ export const trades = pgTable("trades", {
   triggeredBy: varchar("triggered_by", { length: 20 }).notNull(),
   status: varchar("status", { length: 20 }).default("pending"),
   errorMessage: text("error_message"),
+  signedTransaction: text("signed_transaction"),
+  lastValidBlockHeight: integer("last_valid_block_height"),
+  retryCount: integer("retry_count").default(0),
+  submittedAt: timestamp("submitted_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
 export const withdrawals = pgTable("withdrawals", {
   id: serial("id").primaryKey(),
   botId: integer("bot_id").notNull().references(() => bots.id, { onDelete: "cascade" }),
+  chain: varchar("chain", { length: 20 }).default("solana"),
   destinationAddress: varchar("destination_address", { length: 100 }).notNull(),
+  tokenAddress: varchar("token_address", { length: 100 }),
   amountSol: numeric("amount_sol", { precision: 20, scale: 9 }).notNull(),
   txHash: varchar("tx_hash", { length: 200 }),
   triggeredBy: varchar("triggered_by", { length: 20 }).notNull(),
   status: varchar("status", { length: 20 }).default("pending"),
   errorMessage: text("error_message"),
+  signedTransaction: text("signed_transaction"),
+  lastValidBlockHeight: integer("last_valid_block_height"),
+  retryCount: integer("retry_count").default(0),
+  submittedAt: timestamp("submitted_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+export const botRiskPolicies = pgTable("bot_risk_policies", {
+  id: serial("id").primaryKey(),
+  botId: integer("bot_id").notNull().references(() => bots.id, { onDelete: "cascade" }).unique(),
+  // Amounts are in this chain's native coin; a policy only applies while the
+  // bot's wallet is on the same chain.
+  chain: varchar("chain", { length: 20 }).default("solana"),
+  maxTradeSol: numeric("max_trade_sol", { precision: 20, scale: 9 }).notNull(),
+  dailySpendSol: numeric("daily_spend_sol", { precision: 20, scale: 9 }).notNull(),
+  weeklySpendSol: numeric("weekly_spend_sol", { precision: 20, scale: 9 }).notNull(),
+  maxWithdrawSolPerDay: numeric("max_withdraw_sol_per_day", { precision: 20, scale: 9 }).notNull(),
+  allowedMints: jsonb("allowed_mints").$type<string[]>().default([]),
+  deniedMints: jsonb("denied_mints").$type<string[]>().default([]),
+  // Daily cap per token contract, in token units. Tokens without an entry
+  // can't be withdrawn.
+  tokenWithdrawLimits: jsonb("token_withdraw_limits").$type<Record<string, number>>().default({}),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 export const botPosts = pgTable("bot_posts", {
   id: serial("id").primaryKey(),
   botId: integer("bot_id").notNull().references(() => bots.id, { onDelete: "cascade" }),
@@ -82,6 +158,7 @@ export const botPosts = pgTable("bot_posts", {
   postType: varchar("post_type", { length: 20 }).default("auto"),
   status: varchar("status", { length: 20 }).default("pending"),
   errorMessage: text("error_message"),
+  scheduledFor: timestamp("scheduled_for"),
   postedAt: timestamp("posted_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
@@ -103,6 +180,74 @@ export const botMentions = pgTable("bot_mentions", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+export const llmUsage = pgTable("llm_usage", {
+  id: serial("id").primaryKey(),
+  botId: integer("bot_id").references(() => bots.id, { onDelete: "set null" }),
+  provider: varchar("provider", { length: 50 }).notNull(),
+  model: varchar("model", { length: 100 }).notNull(),
+  purpose: varchar("purpose", { length: 20 }).notNull(),
+  promptTokens: integer("prompt_tokens").notNull(),
+  completionTokens: integer("completion_tokens").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const apiTokens = pgTable("api_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: varchar("name", { length: 100 }).notNull(),
+  tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(),
+  tokenPrefix: varchar("token_prefix", { length: 16 }).notNull(),
+  scopes: jsonb("scopes").$type<string[]>().notNull(),
+  botIds: jsonb("bot_ids").$type<number[] | null>(),
+  expiresAt: timestamp("expires_at"),
+  lastUsedAt: timestamp("last_used_at"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const sessions = pgTable("sessions", {
+  id: varchar("id", { length: 36 }).primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  refreshTokenHash: varchar("refresh_token_hash", { length: 64 }).notNull(),
+  userAgent: varchar("user_agent", { length: 255 }),
+  ip: varchar("ip", { length: 64 }),
+  expiresAt: timestamp("expires_at").notNull(),
+  lastUsedAt: timestamp("last_used_at").defaultNow(),
+  elevatedUntil: timestamp("elevated_until"),
+  revokedAt: timestamp("revoked_at"),
+  revokedReason: varchar("revoked_reason", { length: 30 }),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const webhookEndpoints = pgTable("webhook_endpoints", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  url: text("url").notNull(),
+  description: varchar("description", { length: 200 }),
+  encryptedSecret: text("encrypted_secret").notNull(),
+  events: jsonb("events").$type<string[]>().notNull(),
+  botIds: jsonb("bot_ids").$type<number[] | null>(),
+  active: boolean("active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: serial("id").primaryKey(),
+  endpointId: integer("endpoint_id").notNull().references(() => webhookEndpoints.id, { onDelete: "cascade" }),
+  eventId: varchar("event_id", { length: 36 }).notNull(),
+  eventType: varchar("event_type", { length: 50 }).notNull(),
+  botId: integer("bot_id"),
+  payload: jsonb("payload").notNull(),
+  status: varchar("status", { length: 20 }).default("pending"),
+  attempts: integer("attempts").default(0),
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow(),
+  lastAttemptAt: timestamp("last_attempt_at"),
+  responseStatus: integer("response_status"),
+  lastError: text("last_error"),
+  deliveredAt: timestamp("delivered_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 export const auditLogs = pgTable("audit_logs", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").references(() => users.id),
@@ -137,13 +282,42 @@ export const insertTradeSchema = createInsertSchema(trades).pick({
   amountSol: true,
   amountTokens: true,
   triggeredBy: true,
+  status: true,
 });
 
 export const insertWithdrawalSchema = createInsertSchema(withdrawals).pick({
   botId: true,
+  chain: true,
   destinationAddress: true,
+  tokenAddress: true,
   amountSol: true,
   triggeredBy: true,
+  status: true,
+});
+
+export const insertBotPostSchema = createInsertSchema(botPosts).pick({
+  botId: true,
+  content: true,
+  postType: true,
+  status: true,
+  scheduledFor: true,
+});
+
+export const insertBotMentionSchema = createInsertSchema(botMentions).pick({
+  botId: true,
+  mentionTweetId: true,
+  authorXId: true,
+  authorXUsername: true,
+  mentionText: true,
+});
+
+export const insertLlmUsageSchema = createInsertSchema(llmUsage).pick({
+  botId: true,
+  provider: true,
+  model: true,
+  purpose: true,
+  promptTokens: true,
+  completionTokens: true,
 });
 
 export const insertAuditLogSchema = createInsertSchema(auditLogs).pick({
@@ -158,17 +332,47 @@ export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 export type InsertBot = z.infer<typeof insertBotSchema>;
 export type Bot = typeof bots.$inferSelect;
+export type Organization = typeof organizations.$inferSelect;
+export type OrganizationMember = typeof organizationMembers.$inferSelect;
 export type BotXAccount = typeof botXAccounts.$inferSelect;
+export type XOauthState = typeof xOauthStates.$inferSelect;
 export type BotWallet = typeof botWallets.$inferSelect;
+export type WithdrawalAddress = typeof withdrawalAddresses.$inferSelect;
 export type Trade = typeof trades.$inferSelect;
 export type Withdrawal = typeof withdrawals.$inferSelect;
+export type BotRiskPolicy = typeof botRiskPolicies.$inferSelect;
 export type BotPost = typeof botPosts.$inferSelect;
 export type BotMention = typeof botMentions.$inferSelect;
+export type LlmUsageRecord = typeof llmUsage.$inferSelect;
 export type AuditLog = typeof auditLogs.$inferSelect;
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type Session = typeof sessions.$inferSelect;
+export type WebhookEndpoint = typeof webhookEndpoints.$inferSelect;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
 export type InsertTrade = z.infer<typeof insertTradeSchema>;
 export type InsertWithdrawal = z.infer<typeof insertWithdrawalSchema>;
+export type InsertBotPost = z.infer<typeof insertBotPostSchema>;
+export type InsertBotMention = z.infer<typeof insertBotMentionSchema>;
+export type InsertLlmUsage = z.infer<typeof insertLlmUsageSchema>;
 export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
 
+export const CHAINS = ["solana", "base"] as const;
+export type Chain = typeof CHAINS[number];
+
+export const CHAIN_LABELS: Record<Chain, string> = {
+  solana: "Solana",
+  base: "Base",
+};
+
+const ADDRESS_PATTERNS: Record<Chain, RegExp> = {
+  solana: /^[1-9A-HJ-NP-Za-km-z]{32,44}$/,
+  base: /^0x[0-9a-fA-F]{40}$/,
+};
+
+export function isAddressFormatValid(chain: Chain, address: string): boolean {
+  return ADDRESS_PATTERNS[chain].test(address);
+}
+
 export const registerSchema = z.object({
   username: z.string().min(3).max(30).regex(/^[a-zA-Z0-9_]+$/),
   password: z.string().min(8),
@@ -187,6 +391,7 @@ export const createBotSchema = z.object({
   postingIntervalMinutes: z.number().min(30).max(240).optional(),
   mentionCheckIntervalSeconds: z.number().optional(),
   transactionCommanderX: z.string().min(1).max(100),
+  chain: z.enum(CHAINS).optional(),
 });
 
 export const updateBotSchema = z.object({
@@ -198,19 +403,205 @@ export const updateBotSchema = z.object({
   mentionCheckIntervalSeconds: z.number().optional(),
   transactionCommanderX: z.string().min(1).max(100).optional(),
   status: z.string().optional(),
+  approvalMode: z.boolean().optional(),
+  approvalExpiryMinutes: z.number().int().min(10).max(10080).optional(),
+});
+
+export const previewSchema = z.object({
+  count: z.number().int().min(1).max(5).optional(),
+  mentionText: z.string().min(1).max(500).optional(),
+  mentionAuthor: z.string().min(1).max(50).optional(),
+  overrides: updateBotSchema.optional(),
+});
+
+export const queuePostSchema = z.object({
+  content: z.string().trim().min(1).max(280),
+  scheduledFor: z.coerce.date().optional(),
+});
+
+export const updateQueuedPostSchema = queuePostSchema.partial();
+
+export const APPROVAL_KINDS = ["post", "reply", "trade", "withdrawal"] as const;
+export type ApprovalKind = typeof APPROVAL_KINDS[number];
+
+export const approvalDecisionSchema = z.object({
+  content: z.string().trim().min(1).max(280).optional(),
+  reason: z.string().max(500).optional(),
+});
+
+export const riskPolicySchema = z.object({
+  chain: z.enum(CHAINS).default("solana"),
+  maxTradeSol: z.coerce.number().positive().max(1000000).optional(),
+  dailySpendSol: z.coerce.number().positive().max(1000000).optional(),
+  weeklySpendSol: z.coerce.number().positive().max(1000000).optional(),
+  maxWithdrawSolPerDay: z.coerce.number().positive().max(1000000).optional(),
+  allowedMints: z.array(z.string().max(100)).max(200).optional(),
+  deniedMints: z.array(z.string().max(100)).max(200).optional(),
+  tokenWithdrawLimits: z.record(z.string(), z.coerce.number().positive().max(1e15)).optional(),
+}).superRefine((data, ctx) => {
+  // Solana mints or ERC-20 contracts, depending on the wallet's chain.
+  for (const field of ["allowedMints", "deniedMints"] as const) {
+    if (data[field]?.some(mint => !isAddressFormatValid(data.chain, mint))) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [field],
+        message: data.chain === "solana" ? "Invalid token mint address" : "Invalid token contract address",
+      });
+    }
+  }
+
+  const tokens = Object.keys(data.tokenWithdrawLimits ?? {});
+  if (tokens.length === 0) return;
+  if (data.chain === "solana") {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["tokenWithdrawLimits"], message: "Token withdrawals are only supported on Base" });
+  } else if (tokens.length > 50) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["tokenWithdrawLimits"], message: "Set limits for at most 50 tokens" });
+  } else if (tokens.some(token => !isAddressFormatValid(data.chain, token))) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["tokenWithdrawLimits"], message: "Invalid token contract address" });
+  }
+});
+
+/** Limits for bots without a policy, in each chain's native coin. */
+export const DEFAULT_RISK_LIMITS: Record<Chain, { maxTradeSol: number; dailySpendSol: number; weeklySpendSol: number; maxWithdrawSolPerDay: number }> = {
+  solana: { maxTradeSol: 5, dailySpendSol: 20, weeklySpendSol: 100, maxWithdrawSolPerDay: 50 },
+  base: { maxTradeSol: 0.25, dailySpendSol: 1, weeklySpendSol: 5, maxWithdrawSolPerDay: 2.5 },
+};
+
+export const ORG_ROLES = ["owner", "operator", "viewer"] as const;
+export type OrgRole = typeof ORG_ROLES[number];
+
+export const createOrganizationSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+});
+
+export const addOrganizationMemberSchema = z.object({
+  username: z.string().min(1).max(30),
+  role: z.enum(ORG_ROLES),
+});
+
+export const updateOrganizationMemberSchema = z.object({
+  role: z.enum(ORG_ROLES),
+});
+
+export const shareBotSchema = z.object({
+  organizationId: z.number().int().positive().nullable(),
+});
+
+export const API_TOKEN_SCOPES = ["read", "post", "trade", "withdraw"] as const;
+export type ApiTokenScope = typeof API_TOKEN_SCOPES[number];
+
+export const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  password: z.string().min(1, "Password required"),
+  scopes: z.array(z.enum(API_TOKEN_SCOPES)).min(1, "At least one scope is required"),
+  botIds: z.array(z.number().int().positive()).min(1).max(100).optional(),
+  expiresInDays: z.number().int().min(1).max(365).optional(),
+});
+
+export const BOT_EVENT_TYPES = [
+  "post.published",
+  "mention.received",
+  "trade.status_changed",
+  "withdrawal.status_changed",
+  "bot.paused",
+] as const;
+export type BotEventType = typeof BOT_EVENT_TYPES[number];
+
+export const createWebhookSchema = z.object({
+  url: z.string().trim().url("Enter a valid URL").max(2000),
+  description: z.string().trim().max(200).optional(),
+  events: z.array(z.enum(BOT_EVENT_TYPES)).min(1, "Subscribe to at least one event"),
+  botIds: z.array(z.number().int().positive()).min(1).max(100).optional(),
 });
 
+export const updateWebhookSchema = createWebhookSchema.partial().extend({
+  botIds: z.array(z.number().int().positive()).min(1).max(100).nullable().optional(),
+  active: z.boolean().optional(),
+});
+
+export const ANALYTICS_BUCKETS = ["hour", "day", "week"] as const;
+export type AnalyticsBucket = typeof ANALYTICS_BUCKETS[number];
+
+// Caps keep a single series to roughly a thousand points or fewer.
+export const ANALYTICS_MAX_RANGE_DAYS: Record<AnalyticsBucket, number> = { hour: 31, day: 366, week: 1096 };
+
+export const analyticsQuerySchema = z.object({
+  bucket: z.enum(ANALYTICS_BUCKETS).default("day"),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+}).superRefine((data, ctx) => {
+  if (data.from && data.to && data.from >= data.to) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "from must be before to", path: ["from"] });
+  }
+  if (data.from && data.to && data.to.getTime() - data.from.getTime() > ANALYTICS_MAX_RANGE_DAYS[data.bucket] * 24 * 60 * 60 * 1000) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `${data.bucket} buckets cover at most ${ANALYTICS_MAX_RANGE_DAYS[data.bucket]} days`,
+      path: ["to"],
+    });
+  }
+});
+
+export const PLANS = ["free", "pro", "team"] as const;
+export type Plan = typeof PLANS[number];
+
+export interface PlanLimits {
+  maxAgents: number;
+  minPostingIntervalMinutes: number;
+  maxTradeSol: number;
+}
+
+export const DEFAULT_PLAN_LIMITS: Record<Plan, PlanLimits> = {
+  free: { maxAgents: 1, minPostingIntervalMinutes: 60, maxTradeSol: 5 },
+  pro: { maxAgents: 5, minPostingIntervalMinutes: 30, maxTradeSol: 25 },
+  team: { maxAgents: 25, minPostingIntervalMinutes: 30, maxTradeSol: 100 },
+};
+
+export const addWithdrawalAddressSchema = z.object({
+  label: z.string().trim().min(1).max(100),
+  chain: z.enum(CHAINS).default("solana"),
+  address: z.string().min(1).max(100),
+}).superRefine((data, ctx) => {
+  if (!isAddressFormatValid(data.chain, data.address)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["address"], message: `Invalid ${CHAIN_LABELS[data.chain]} address` });
+  }
+});
+
+// Amounts are in the chain's native unit (SOL or ETH), or in whole tokens
+// when tokenAddress names an ERC-20 contract.
 export const withdrawSchema = z.object({
-  destinationAddress: z.string().min(32).max(44).regex(/^[1-9A-HJ-NP-Za-km-z]+$/, "Invalid Solana address"),
+  chain: z.enum(CHAINS).default("solana"),
+  destinationAddress: z.string().min(1).max(100),
+  tokenAddress: z.string().max(100).optional(),
   amountSol: z.coerce.number().positive().max(1000000),
+}).superRefine((data, ctx) => {
+  if (!isAddressFormatValid(data.chain, data.destinationAddress)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["destinationAddress"], message: `Invalid ${CHAIN_LABELS[data.chain]} address` });
+  }
+  if (data.tokenAddress !== undefined) {
+    if (data.chain === "solana") {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["tokenAddress"], message: "Token withdrawals are only supported on Base" });
+    } else if (!isAddressFormatValid(data.chain, data.tokenAddress)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["tokenAddress"], message: "Invalid token contract address" });
+    }
+  }
 });
 
 export const tradeSchema = z.object({
+  chain: z.enum(CHAINS).default("solana"),
   action: z.enum(["buy", "sell"]),
-  tokenMint: z.string().min(32).max(44).regex(/^[1-9A-HJ-NP-Za-km-z]+$/, "Invalid token mint address"),
+  tokenMint: z.string().min(1).max(100),
   amountSol: z.coerce.number().positive().max(1000000).optional(),
   amountTokens: z.coerce.number().positive().optional(),
   tokenSymbol: z.string().max(20).optional(),
+}).superRefine((data, ctx) => {
+  if (!isAddressFormatValid(data.chain, data.tokenMint)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["tokenMint"],
+      message: data.chain === "solana" ? "Invalid token mint address" : "Invalid token contract address",
+    });
+  }
 });
 
 export const changePasswordSchema = z.object({
@@ -218,6 +609,50 @@ export const changePasswordSchema = z.object({
   newPassword: z.string().min(8),
 });
 
+export const refreshSessionSchema = z.object({
+  refreshToken: z.string().min(1, "Refresh token required"),
+});
+
+// A 6-digit authenticator code or a recovery code (xxxxx-xxxxx).
+const twoFactorCode = z.string().trim().min(6, "Code required").max(20);
+
+export const verifyLoginChallengeSchema = z.object({
+  challengeToken: z.string().min(1),
+  code: twoFactorCode,
+});
+
+export const setupTwoFactorSchema = z.object({
+  password: z.string().min(1, "Password required"),
+});
+
+export const enableTwoFactorSchema = z.object({
+  code: z.string().trim().regex(/^\d{6}$/, "Enter the 6-digit code from your authenticator app"),
+});
+
+export const disableTwoFactorSchema = z.object({
+  password: z.string().min(1, "Password required"),
+  code: twoFactorCode,
+});
+
+export const regenerateRecoveryCodesSchema = z.object({
+  code: twoFactorCode,
+});
+
+export const stepUpSchema = z.object({
+  password: z.string().min(1).optional(),
+  code: twoFactorCode.optional(),
+}).refine(d => d.password || d.code, "Password or code required");
+
+export const exportWalletKeySchema = z.object({
+  password: z.string().min(1, "Password required"),
+});
+
+export const importWalletKeySchema = z.object({
+  password: z.string().min(1, "Password required"),
+  chain: z.enum(CHAINS).optional(),
+  privateKey: z.string().trim().min(1, "Private key required").max(200),
+});
+
 export const APP_NAME = "Moltcook";
 
 export const PERSONALITY_PRESETS = [